@@ -0,0 +1,117 @@
+/**
+ * Minimal stand-in for a Telegram Bot API server, for trying the bot
+ * against TELEGRAM_API_ROOT without touching Telegram.
+ *
+ *   MOCK_PORT=8081 MOCK_UPLOAD_LIMIT_MB=2000 node scripts/mock-bot-api.js
+ *   TELEGRAM_API_ROOT=http://localhost:8081 TELEGRAM_LOCAL_MODE=true npm run dev
+ *
+ * Uploads (multipart or file:// references in local mode) are measured and
+ * rejected with 413 above the limit, like the real server does.
+ */
+const fs = require('fs');
+const http = require('http');
+const { fileURLToPath } = require('url');
+
+const port = parseInt(process.env.MOCK_PORT || '8081', 10);
+const uploadLimitBytes = parseInt(process.env.MOCK_UPLOAD_LIMIT_MB || '50', 10) * 1024 * 1024;
+
+let nextMessageId = 1;
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+function parseFields(req, body) {
+  const type = req.headers['content-type'] || '';
+  if (type.includes('application/json')) {
+    return JSON.parse(body.toString() || '{}');
+  }
+  if (type.includes('multipart/form-data')) {
+    // Only plain text fields are needed; uploaded parts are measured as a whole
+    const fields = {};
+    const text = body.toString('latin1');
+    const fieldRegex = /name="([^"]+)"\r\n\r\n([^\r]*)\r\n/g;
+    let match;
+    while ((match = fieldRegex.exec(text))) {
+      fields[match[1]] = match[2];
+    }
+    return fields;
+  }
+  return Object.fromEntries(new URLSearchParams(body.toString()));
+}
+
+function localFileSize(value) {
+  if (typeof value !== 'string' || !value.startsWith('file://')) {
+    return 0;
+  }
+  return fs.statSync(fileURLToPath(value)).size;
+}
+
+function message(fields, extra) {
+  return {
+    message_id: nextMessageId++,
+    date: Math.floor(Date.now() / 1000),
+    chat: { id: Number(fields.chat_id) || 0, type: 'private' },
+    ...extra,
+  };
+}
+
+function fileMessage(kind, fields) {
+  const fileId = `mock-${kind}-${nextMessageId}`;
+  const file = { file_id: fileId, file_unique_id: fileId };
+  if (kind === 'photo') {
+    return message(fields, { photo: [{ ...file, width: 1, height: 1 }] });
+  }
+  return message(fields, { [kind]: file, caption: fields.caption });
+}
+
+const handlers = {
+  getMe: () => ({ id: 1, is_bot: true, first_name: 'Mock', username: 'mock_bot' }),
+  deleteWebhook: () => true,
+  setWebhook: () => true,
+  setMyCommands: () => true,
+  getUpdates: () => new Promise((resolve) => setTimeout(() => resolve([]), 1000)),
+  sendMessage: (fields) => message(fields, { text: fields.text }),
+  editMessageText: (fields) => message(fields, { text: fields.text }),
+  deleteMessage: () => true,
+  answerCallbackQuery: () => true,
+  sendVideo: (fields) => fileMessage('video', fields),
+  sendDocument: (fields) => fileMessage('document', fields),
+  sendAudio: (fields) => fileMessage('audio', fields),
+  sendPhoto: (fields) => fileMessage('photo', fields),
+};
+
+const server = http.createServer(async (req, res) => {
+  const match = (req.url || '').match(/^\/bot[^/]+\/(\w+)/);
+  const method = match ? match[1] : '';
+  const body = await readBody(req);
+  const fields = parseFields(req, body);
+
+  const uploadSize = Math.max(body.length, localFileSize(fields.video || fields.document || fields.audio));
+  console.log(`${method} ${uploadSize} bytes`, JSON.stringify(fields).slice(0, 200));
+
+  const reply = (status, payload) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(payload));
+  };
+
+  if (uploadSize > uploadLimitBytes) {
+    return reply(413, { ok: false, error_code: 413, description: 'Request Entity Too Large' });
+  }
+
+  const handler = handlers[method];
+  if (!handler) {
+    return reply(404, { ok: false, error_code: 404, description: `Not Found: method ${method} is not mocked` });
+  }
+
+  reply(200, { ok: true, result: await handler(fields) });
+});
+
+server.listen(port, () => {
+  console.log(`Mock Bot API listening on http://localhost:${port} (upload limit ${uploadLimitBytes} bytes)`);
+});
@@ -1,238 +1,2643 @@
-import { Context, Telegraf } from 'telegraf';
-import { AccessControl } from '../services/access';
-import { Downloader, DownloadResult } from '../services/downloader';
+import * as path from 'path';
+import { Context, Markup, Telegraf, TelegramError } from 'telegraf';
+import { message } from 'telegraf/filters';
+import { InlineQueryResult, Message } from 'telegraf/types';
+import { v4 as uuidv4 } from 'uuid';
+import { AccessControl, UserRole } from '../services/access';
+import { BotApiBackend, InputFileRef } from '../services/botApi';
+import { CacheEntry, CachedMedia, MediaCache } from '../services/cache';
+import { ChatSettingsStore, GROUP_TRIGGERS, isGroupTrigger } from '../services/chats';
+import {
+  CookieEntry,
+  CookieFileError,
+  CookieStore,
+  MAX_COOKIE_FILE_BYTES,
+  normalizeCookieDomain,
+} from '../services/cookies';
+import { HttpServer } from '../services/http';
+import { LibraryItem, MediaLibrary } from '../services/library';
+import { LinkResolver } from '../services/links';
+import { parseQualityPreference, QualityPreference, UserPreferences } from '../services/preferences';
+import { JobQueue, QueueFullError } from '../services/queue';
+import { RateLimiter } from '../services/rateLimiter';
+import { DeliveryOutcome, entryKey, SubscriptionScheduler } from '../services/scheduler';
+import {
+  parseSubscriptionFilters,
+  Subscription,
+  SubscriptionFilters,
+  SubscriptionLimitError,
+  SubscriptionStore,
+} from '../services/subscriptions';
+import { QuotaCheck, QuotaExceeded, UsageLedger, UsageOutcome, UsageSummary } from '../services/usage';
+import {
+  AUDIO_FORMATS,
+  Downloader,
+  DownloadOptions,
+  DownloadResult,
+  isAudioFormat,
+  MediaItem,
+  MediaItemType,
+  parsePlaylistRange,
+  PlaylistEntry,
+} from '../services/downloader';
+import { DownloadErrorCode, isTransientError } from '../services/errors';
+import { FIT_STRATEGIES, isFitStrategy } from '../services/fitter';
+import { CaptionInfo, DEFAULT_CAPTION_TEMPLATE, renderCaption } from './caption';
+import {
+  DEFAULT_LOCALE,
+  isLocale,
+  isMessageKey,
+  Locale,
+  LOCALE_NAMES,
+  LOCALES,
+  MessageKey,
+  resolveLocale,
+  Translator,
+  translator,
+} from '../i18n';
+import { ClipRangeError, extractLinks, LinkRequest } from '../utils/clip';
 import { logger } from '../utils/logger';
-import { extractUrls } from '../utils/url';
+import { metrics } from '../utils/metrics';
+import { DownloadProgress, formatBytes, formatDuration, renderProgressBar } from '../utils/progress';
+import { expandEntityLinks, extractUrls, getDomain, mediaKey } from '../utils/url';
 import { cleanupTempDir } from '../utils/temp';
 
+const MEDIA_GROUP_LIMIT = 10;
+const QUALITY_PICKER_LIMIT = 8;
+const PREFERRED_QUALITIES: QualityPreference[] = ['ask', 'auto', 1080, 720, 480, 360];
+// A failed inline download is reported to queries for this long, then tried again
+const INLINE_FAILURE_TTL_MS = 30 * 1000;
+// /start payload of the button shown above inline results
+const INLINE_START_PARAMETER = 'inline';
+// Caption of a cookies.txt upload, e.g. "/cookies instagram.com"
+const COOKIE_UPLOAD_CAPTION = /^\/cookies(?:@\w+)?\s+(\S+)\s*$/i;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Newest entries of a channel looked at when subscribing and on every check
+const SUBSCRIPTION_CHECK_ITEMS = 10;
+const HISTORY_PAGE_SIZE = 5;
+
+interface PendingPick {
+  url: string;
+  userId: number;
+  batchId: string;
+  options: DownloadOptions;
+}
+
+interface PendingPlaylist {
+  url: string;
+  userId: number;
+  entries: PlaylistEntry[];
+  options: DownloadOptions;
+}
+
+// A /history list being paged through
+interface HistoryView {
+  userId: number;
+  query?: string;
+}
+
 interface SessionData {
-  isProcessing: boolean;
   lastRequestTime: number;
 }
 
-interface BotContext extends Context {
-  session?: SessionData;
-}
+interface BotContext extends Context {
+  session?: SessionData;
+  locale: Locale;
+  // Translates into the locale of the user behind the update
+  t: Translator;
+}
+
+interface UrlJob {
+  id: string;
+  // Links sent in one message share a batch; cancelling one drops the rest
+  batchId: string;
+  ctx: BotContext;
+  url: string;
+  userId: number;
+  options: DownloadOptions;
+  chatId: number;
+  statusMessageId: number;
+  // Group setting: remove the status message after a successful send
+  deleteStatus: boolean;
+  audioButtonId?: string;
+  abortController: AbortController;
+  statusText?: string;
+  statusUpdatedAt?: number;
+  phase?: string;
+  // Shown above the progress, e.g. which playlist entry is downloading
+  progressPrefix?: string;
+}
+
+// What sendCached needs: a cache entry or a history item
+type SendableMedia = Pick<CacheEntry, 'media' | 'title' | 'performer' | 'duration' | 'metadata' | 'clip'>;
+
+// Outcome of downloading a link for inline mode and uploading it to the cache chat
+interface InlineUpload {
+  entry?: Omit<CacheEntry, 'url' | 'variant' | 'createdAt'>;
+  error?: MessageKey;
+}
+
+// An inline download in progress, or its outcome once finished
+interface InlineUploadState {
+  userId: number;
+  outcome?: InlineUpload;
+}
+
+interface OutgoingMediaItem {
+  type: MediaItemType;
+  media: InputFileRef;
+  // Videos: dimensions, duration and thumbnail
+  attributes?: VideoAttributes;
+}
+
+type VideoAttributes = ReturnType<typeof videoAttributes>;
+
+// Where media goes: the chat of the update being handled, or one the bot posts to on its own
+interface Destination {
+  chatId: number;
+  t: Translator;
+  // Reply and forum topic parameters for everything sent there
+  extra: {
+    reply_parameters?: { message_id: number; allow_sending_without_reply?: boolean };
+    message_thread_id?: number;
+  };
+}
+
+// How sending a link went; a failed download comes with its result to explain it
+interface Delivery {
+  outcome: UsageOutcome;
+  failed?: DownloadResult;
+}
+
+export interface WebhookConfig {
+  // Public base URL Telegram posts to, e.g. https://bot.example.com
+  url: string;
+  path: string;
+  // Sent back by Telegram in X-Telegram-Bot-Api-Secret-Token; other requests are rejected
+  secretToken: string;
+  server: HttpServer;
+}
+
+export type BotTransport = { type: 'polling' } | ({ type: 'webhook' } & WebhookConfig);
+
+export interface BotServices {
+  botApi?: BotApiBackend;
+  mediaCache?: MediaCache;
+  jobQueue?: JobQueue;
+  preferences?: UserPreferences;
+  chatSettings?: ChatSettingsStore;
+  rateLimiter?: RateLimiter;
+  usageLedger?: UsageLedger;
+  cookieStore?: CookieStore;
+  linkResolver?: LinkResolver;
+  subscriptions?: SubscriptionStore;
+  // How often subscriptions are checked for new posts
+  subscriptionCheckMinutes?: number;
+  // Every user's sent downloads for /history, optionally archived
+  library?: MediaLibrary;
+  // Most entries one /playlist request may download
+  playlistMaxItems?: number;
+  // Chat the bot uploads inline-mode downloads to, to get a file_id it can answer with
+  inlineCacheChatId?: number;
+  // See renderCaption for the placeholders
+  captionTemplate?: string;
+}
+
+/** The error in the user's language, plus a hint on what to do about it where there is one. */
+function formatDownloadError(t: Translator, failed: { errorCode?: DownloadErrorCode }): string {
+  const code = failed.errorCode ?? 'unknown';
+  const hintKey = `hint.${code}`;
+  const lines = [t('download.failed', { error: t(`error.${code}`) })];
+  if (isMessageKey(hintKey)) {
+    lines.push(t('download.hint', { hint: t(hintKey) }));
+  }
+  return lines.join('\n');
+}
+
+function describeQuota(t: Translator, exceeded: QuotaExceeded): string {
+  return t(`quota.${exceeded.period}.${exceeded.unit}`, { limit: exceeded.limit });
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+function formatCookieEntry(t: Translator, entry: CookieEntry, isExpired: boolean): string {
+  const lines = [t('cookies.entry', { domain: entry.domain, count: entry.cookieCount, date: formatDate(entry.addedAt) })];
+  if (entry.expiresAt !== undefined) {
+    lines.push(t(isExpired ? 'cookies.entryDisabled' : 'cookies.entryExpiresOn', { date: formatDate(entry.expiresAt) }));
+  }
+  if (entry.cookiesExpireAt !== undefined && entry.cookiesExpireAt <= Date.now()) {
+    lines.push(t('cookies.entryCookiesExpired', { date: formatDate(entry.cookiesExpireAt) }));
+  }
+  if (entry.staleWarnedAt !== undefined) {
+    lines.push(t('cookies.entryStale', { failures: entry.authFailures }));
+  }
+  return lines.join('\n');
+}
+
+function describeFilters(t: Translator, filters: SubscriptionFilters): string[] {
+  const lines: string[] = [];
+  if (filters.maxDuration !== undefined) {
+    lines.push(t('subscriptions.filterDuration', { duration: formatDuration(filters.maxDuration) }));
+  }
+  if (filters.keyword) {
+    lines.push(t('subscriptions.filterKeyword', { keyword: filters.keyword }));
+  }
+  return lines;
+}
+
+function formatSubscription(t: Translator, subscription: Subscription): string {
+  const { id, title, url, failures, lastErrorCode } = subscription;
+  const lines = [t('subscriptions.entry', { id, title: title ?? url, url }), ...describeFilters(t, subscription.filters)];
+  if (failures > 0) {
+    lines.push(t('subscriptions.failing', { failures, error: t(`error.${lastErrorCode ?? 'unknown'}`) }));
+  }
+  return lines.join('\n');
+}
+
+/** What Telegram needs to show a video in the right shape, with a preview. */
+function videoAttributes(item?: MediaItem) {
+  return {
+    width: item?.width && Math.round(item.width),
+    height: item?.height && Math.round(item.height),
+    duration: item?.duration && Math.round(item.duration),
+    supports_streaming: true,
+    // Thumbnails can't be referenced by path, only uploaded
+    ...(item?.thumbnailPath && { thumbnail: { source: item.thumbnailPath } }),
+  };
+}
+
+/** Text or caption of a message, with the links hidden in its entities written out. */
+function messageText(message: Message): string | undefined {
+  if ('text' in message) {
+    return expandEntityLinks(message.text, message.entities);
+  }
+  if ('caption' in message && message.caption) {
+    return expandEntityLinks(message.caption, message.caption_entities);
+  }
+  return undefined;
+}
+
+function toCachedMedia(message: Message.PhotoMessage | Message.VideoMessage | Message.DocumentMessage | Message.AudioMessage): CachedMedia {
+  if ('photo' in message) {
+    // Photo sizes are ordered from smallest to largest
+    return { type: 'photo', fileId: message.photo[message.photo.length - 1].file_id };
+  }
+  if ('video' in message) {
+    return { type: 'video', fileId: message.video.file_id };
+  }
+  if ('audio' in message) {
+    return { type: 'audio', fileId: message.audio.file_id };
+  }
+  return { type: 'document', fileId: message.document.file_id };
+}
+
+export class Bot {
+  private bot: Telegraf<BotContext>;
+  private accessControl: AccessControl;
+  private downloader: Downloader;
+  private botApi: BotApiBackend;
+  private mediaCache?: MediaCache;
+  private jobQueue: JobQueue;
+  private preferences?: UserPreferences;
+  private chatSettings?: ChatSettingsStore;
+  private rateLimiter: RateLimiter;
+  private usageLedger?: UsageLedger;
+  private cookieStore?: CookieStore;
+  private linkResolver: LinkResolver;
+  private subscriptions?: SubscriptionStore;
+  private subscriptionScheduler?: SubscriptionScheduler;
+  private library?: MediaLibrary;
+  // Short ids for links referenced by "audio only" buttons (callback data is limited to 64 bytes)
+  private audioButtonLinks: Map<string, LinkRequest> = new Map();
+  // Links waiting for a choice in the quality picker, by pick id
+  private pendingPicks: Map<string, PendingPick> = new Map();
+  // Playlists waiting for confirmation, by id
+  private pendingPlaylists: Map<string, PendingPlaylist> = new Map();
+  // /history lists by id, so their page buttons know the query
+  private historyViews: Map<string, HistoryView> = new Map();
+  // Queued and downloading jobs, by job id
+  private jobs: Map<string, UrlJob> = new Map();
+  // Inline-mode downloads by variant and media key; repeated queries see the same upload
+  private inlineUploads: Map<string, InlineUploadState> = new Map();
+  private readonly inlineCacheChatId?: number;
+  private readonly playlistMaxItems: number;
+  private readonly captionTemplate: string;
+  private readonly subscriptionCheckMinutes: number;
+  private webhook?: WebhookConfig;
+  // How long inline buttons that reference a link (audio, quality picker) stay usable
+  private readonly buttonTtlMs = 60 * 60 * 1000;
+  // Telegram rate-limits message edits; progress updates are throttled to one per interval
+  private readonly progressIntervalMs = 3000;
+  private readonly maxFileSizeBytes: number;
+
+  constructor(
+    telegramToken: string,
+    accessControl: AccessControl,
+    downloader: Downloader,
+    maxFileSizeMB: number,
+    services: BotServices = {}
+  ) {
+    this.botApi = services.botApi || new BotApiBackend({ localMode: false });
+    this.bot = new Telegraf<BotContext>(telegramToken, {
+      telegram: this.botApi.apiRoot ? { apiRoot: this.botApi.apiRoot } : {},
+    });
+    this.accessControl = accessControl;
+    this.downloader = downloader;
+    this.mediaCache = services.mediaCache;
+    this.jobQueue = services.jobQueue || new JobQueue({ concurrency: 2, maxPendingPerUser: 10 });
+    this.preferences = services.preferences;
+    this.chatSettings = services.chatSettings;
+    // Without a configured limiter, allow one request every 5 seconds
+    this.rateLimiter = services.rateLimiter || new RateLimiter({ burst: 1, perMinute: 12 });
+    this.usageLedger = services.usageLedger;
+    this.cookieStore = services.cookieStore;
+    this.linkResolver = services.linkResolver || new LinkResolver();
+    this.subscriptions = services.subscriptions;
+    this.subscriptionCheckMinutes = services.subscriptionCheckMinutes ?? 30;
+    this.library = services.library;
+    if (this.subscriptions) {
+      this.subscriptionScheduler = new SubscriptionScheduler({
+        store: this.subscriptions,
+        downloader,
+        queue: this.jobQueue,
+        intervalMinutes: this.subscriptionCheckMinutes,
+        checkItems: SUBSCRIPTION_CHECK_ITEMS,
+        deliver: (subscription, entry) => this.deliverSubscriptionEntry(subscription, entry),
+      });
+    }
+    metrics.queuePending.collect(() => this.jobQueue.pendingCount);
+    metrics.queueActive.collect(() => this.jobQueue.activeCount);
+    this.inlineCacheChatId = services.inlineCacheChatId;
+    this.playlistMaxItems = services.playlistMaxItems ?? 25;
+    this.captionTemplate = services.captionTemplate ?? DEFAULT_CAPTION_TEMPLATE;
+    this.maxFileSizeBytes = maxFileSizeMB * 1024 * 1024;
+
+    this.setupHandlers();
+  }
+
+  private setupHandlers(): void {
+    // Replies go out in the user's language: their /language choice, else what Telegram reports
+    this.bot.use((ctx, next) => {
+      ctx.locale = this.localeFor(ctx.from);
+      ctx.t = translator(ctx.locale);
+      return next();
+    });
+
+    // Groups: only allowlisted chats, and strangers there are ignored without a reply
+    this.bot.use(async (ctx, next) => {
+      if (!ctx.chat || ctx.chat.type === 'private' || ctx.chat.type === 'channel') {
+        return next();
+      }
+
+      if (!this.accessControl.isChatAllowed(ctx.chat.id)) {
+        logger.debug({ chatId: ctx.chat.id }, 'Ignoring update from a chat that is not allowed');
+        return;
+      }
+
+      if (!ctx.from || !this.accessControl.isAllowed(ctx.from.id)) {
+        logger.debug({ chatId: ctx.chat.id, userId: ctx.from?.id }, 'Ignoring unauthorized group member');
+        return;
+      }
+
+      return next();
+    });
+
+    // Start command; /start <token> redeems an invite link
+    this.bot.start(async (ctx) => {
+      const userId = ctx.from?.id;
+      if (!userId) {
+        return;
+      }
+
+      const token = ctx.payload.trim();
+      if (token && token !== INLINE_START_PARAMETER && ctx.chat.type === 'private') {
+        const role = await this.accessControl.redeemInvite(token, userId, this.formatUserName(ctx.from));
+        if (role) {
+          logger.info({ userId, role }, 'Invite redeemed');
+          await ctx.reply(ctx.t(role === 'admin' ? 'invite.acceptedAdmin' : 'invite.accepted'));
+        } else if (!this.accessControl.isAllowed(userId)) {
+          return ctx.reply(ctx.t('invite.invalid'));
+        }
+      }
+
+      if (!this.accessControl.isAllowed(userId)) {
+        return this.denyAccess(ctx);
+      }
+      return ctx.reply(ctx.t('start.welcome'));
+    });
+
+    // Audio-only command: /audio <url> [mp3|m4a|opus]
+    this.bot.command('audio', async (ctx) => {
+      const userId = ctx.from?.id;
+      if (!userId) {
+        return;
+      }
+
+      if (!this.accessControl.isAllowed(userId)) {
+        logger.warn({ userId }, 'Unauthorized access attempt');
+        return this.denyAccess(ctx);
+      }
+
+      const links = await this.parseLinks(ctx, messageText(ctx.message) ?? '');
+      if (!links) {
+        return;
+      }
+      if (links.length === 0) {
+        return ctx.reply(ctx.t('usage.audio', { formats: AUDIO_FORMATS.join('|') }));
+      }
+
+      const audioFormat = ctx.message.text
+        .split(/\s+/)
+        .map((token) => token.toLowerCase())
+        .find(isAudioFormat);
+
+      await this.handleRequest(ctx, userId, links, { mode: 'audio', audioFormat });
+    });
+
+    // Oversized video handling for one request: /fit <reencode|split> <url>
+    this.bot.command('fit', async (ctx) => {
+      const userId = ctx.from?.id;
+      if (!userId || !this.accessControl.isAllowed(userId)) {
+        return this.denyAccess(ctx);
+      }
+
+      const fitStrategy = ctx.payload
+        .split(/\s+/)
+        .map((token) => token.toLowerCase())
+        .find(isFitStrategy);
+      const links = await this.parseLinks(ctx, messageText(ctx.message) ?? '');
+      if (!links) {
+        return;
+      }
+
+      if (!fitStrategy || links.length === 0) {
+        return ctx.reply(ctx.t('usage.fit', { strategies: FIT_STRATEGIES.join('|') }));
+      }
+
+      await this.handleRequest(ctx, userId, links, { mode: 'video', fitStrategy });
+    });
+
+    // Playlists and channels: /playlist <url> [range]
+    this.bot.command('playlist', async (ctx) => {
+      const userId = ctx.from?.id;
+      if (!userId || !this.accessControl.isAllowed(userId)) {
+        return this.denyAccess(ctx);
+      }
+
+      const [url] = extractUrls(ctx.payload);
+      const rangeArg = url ? ctx.payload.replace(url, '').trim() : '';
+      const range = rangeArg ? parsePlaylistRange(rangeArg) : undefined;
+      if (!url || (rangeArg && !range)) {
+        return ctx.reply(ctx.t('usage.playlist'));
+      }
+
+      if (!(await this.checkRequestLimits(ctx, userId))) {
+        return;
+      }
+
+      // Listing a large channel takes a while; don't hold up the update handler meanwhile
+      void this.showPlaylistConfirmation(ctx, url, userId, range).catch((error) =>
+        logger.error({ userId, url, error }, 'Playlist listing failed')
+      );
+    });
+
+    // Channels and accounts whose new posts are sent to this chat: /subscribe <url> [max=<duration>] [keyword=<word>]
+    this.bot.command('subscribe', async (ctx) => {
+      const userId = ctx.from?.id;
+      if (!userId || !this.accessControl.isAllowed(userId)) {
+        return this.denyAccess(ctx);
+      }
+      if (!this.subscriptions) {
+        return ctx.reply(ctx.t('subscriptions.unavailable'));
+      }
+
+      const [url] = extractUrls(messageText(ctx.message) ?? '');
+      const filters = parseSubscriptionFilters(
+        ctx.payload.split(/\s+/).filter((token) => token && extractUrls(token).length === 0)
+      );
+      if (!url || !filters) {
+        return ctx.reply(ctx.t('usage.subscribe'));
+      }
+
+      // Listing the channel takes a while; don't hold up the update handler meanwhile
+      void this.subscribe(ctx, userId, url, filters).catch((error) =>
+        logger.error({ userId, url, error }, 'Subscribing failed')
+      );
+    });
+
+    this.bot.command('unsubscribe', async (ctx) => {
+      const userId = ctx.from?.id;
+      if (!userId || !this.accessControl.isAllowed(userId)) {
+        return this.denyAccess(ctx);
+      }
+      if (!this.subscriptions) {
+        return ctx.reply(ctx.t('subscriptions.unavailable'));
+      }
+
+      const [target] = ctx.payload.trim().split(/\s+/);
+      if (!target) {
+        return ctx.reply(ctx.t('usage.unsubscribe'));
+      }
+
+      // By the id from /subscriptions, or by link in any of its forms
+      const [url] = extractUrls(target);
+      const subscription =
+        this.subscriptions.find(ctx.chat.id, target) ??
+        (url ? this.subscriptions.find(ctx.chat.id, (await this.linkResolver.resolve(url)).url) : undefined);
+      if (!subscription) {
+        return ctx.reply(ctx.t('subscriptions.notFound'));
+      }
+
+      await this.subscriptions.remove(subscription.id);
+      logger.info({ userId, chatId: ctx.chat.id, subscriptionId: subscription.id }, 'Unsubscribed');
+      return ctx.reply(ctx.t('subscriptions.removed', { title: subscription.title ?? subscription.url }));
+    });
+
+    this.bot.command('subscriptions', async (ctx) => {
+      const userId = ctx.from?.id;
+      if (!userId || !this.accessControl.isAllowed(userId)) {
+        return this.denyAccess(ctx);
+      }
+      if (!this.subscriptions) {
+        return ctx.reply(ctx.t('subscriptions.unavailable'));
+      }
+
+      const subscriptions = this.subscriptions.listForChat(ctx.chat.id);
+      if (subscriptions.length === 0) {
+        return ctx.reply(ctx.t('subscriptions.none'));
+      }
+      const entries = subscriptions.map((subscription) => formatSubscription(ctx.t, subscription)).join('\n');
+      return ctx.reply(ctx.t('subscriptions.list', { entries }), { link_preview_options: { is_disabled: true } });
+    });
+
+    // Own sent downloads, newest first: /history [words from the title, site or uploader]
+    this.bot.command('history', async (ctx) => {
+      const userId = ctx.from?.id;
+      if (!userId || !this.accessControl.isAllowed(userId)) {
+        return this.denyAccess(ctx);
+      }
+      if (!this.library) {
+        return ctx.reply(ctx.t('history.unavailable'));
+      }
+
+      const viewId = uuidv4().slice(0, 8);
+      const view: HistoryView = { userId, query: ctx.payload.trim() || undefined };
+      this.historyViews.set(viewId, view);
+      setTimeout(() => this.historyViews.delete(viewId), this.buttonTtlMs).unref();
+
+      const { text, keyboard } = this.renderHistory(ctx.t, viewId, view, 0);
+      return ctx.reply(text, keyboard);
+    });
+
+    this.bot.action(/^history:page:([\w-]+):(\d+)$/, async (ctx) => {
+      const [, viewId, page] = ctx.match;
+      const view = this.historyViews.get(viewId);
+      if (!view) {
+        return ctx.answerCbQuery(ctx.t('history.expired'));
+      }
+      if (ctx.from?.id !== view.userId) {
+        return ctx.answerCbQuery(ctx.t('history.notYours'));
+      }
+
+      const { text, keyboard } = this.renderHistory(ctx.t, viewId, view, Number(page));
+      await ctx.answerCbQuery();
+      return ctx.editMessageText(text, keyboard).catch(() => {});
+    });
+
+    // Sends an item again by its file_ids, without downloading
+    this.bot.action(/^history:send:([\w-]+)$/, async (ctx) => {
+      const item = this.library?.get(ctx.match[1]);
+      if (!item) {
+        return ctx.answerCbQuery(ctx.t('history.gone'));
+      }
+      if (ctx.from?.id !== item.userId) {
+        return ctx.answerCbQuery(ctx.t('history.notYours'));
+      }
+
+      await ctx.answerCbQuery(ctx.t('history.sending'));
+      try {
+        await this.sendCached(this.destinationOf(ctx), item, item.url);
+        logger.info({ userId: item.userId, itemId: item.id, url: item.url }, 'History item sent again');
+      } catch (error) {
+        logger.warn({ itemId: item.id, error }, 'Failed to send history item');
+        await ctx.reply(ctx.t('history.sendFailed'));
+      }
+    });
+
+    this.bot.action(/^playlist:([\w-]+):(go|cancel)$/, async (ctx) => {
+      const [, playlistId, choice] = ctx.match;
+      const playlist = this.pendingPlaylists.get(playlistId);
+      if (!playlist) {
+        return ctx.answerCbQuery(ctx.t('playlist.expired'));
+      }
+
+      if (ctx.from?.id !== playlist.userId) {
+        return ctx.answerCbQuery(ctx.t('job.notYoursToChoose'));
+      }
+
+      this.pendingPlaylists.delete(playlistId);
+      if (choice === 'cancel') {
+        await ctx.answerCbQuery(ctx.t('job.cancelled'));
+        return ctx.editMessageText(ctx.t('job.cancelled')).catch(() => {});
+      }
+
+      await ctx.answerCbQuery(ctx.t('playlist.downloading', { count: playlist.entries.length }));
+      await this.enqueuePlaylist(ctx, playlist);
+    });
+
+    // Admin: drop cached file_ids for a URL, or everything
+    this.bot.command('uncache', async (ctx) => {
+      const userId = ctx.from?.id;
+      if (!userId || !this.accessControl.isAdmin(userId)) {
+        return ctx.reply(ctx.t('access.adminsOnly'));
+      }
+
+      if (!this.mediaCache) {
+        return ctx.reply(ctx.t('cache.disabled'));
+      }
+
+      const [target] = ctx.payload.trim().split(/\s+/);
+      if (target === 'all') {
+        const removed = await this.mediaCache.clear();
+        return ctx.reply(ctx.t('cache.cleared', { count: removed }));
+      }
+
+      const [url] = extractUrls(ctx.payload);
+      if (!url) {
+        return ctx.reply(ctx.t('usage.uncache'));
+      }
+
+      const { url: resolved } = await this.linkResolver.resolve(url);
+      const removed = await this.mediaCache.invalidate(resolved);
+      return ctx.reply(removed > 0 ? ctx.t('cache.removed', { count: removed }) : ctx.t('cache.notCached'));
+    });
+
+    // Own usage; admins also get everyone's usage for the month
+    this.bot.command('stats', async (ctx) => {
+      const userId = ctx.from?.id;
+      if (!userId || !this.accessControl.isAllowed(userId)) {
+        return this.denyAccess(ctx);
+      }
+
+      if (!this.usageLedger) {
+        return ctx.reply(ctx.t('stats.unavailable'));
+      }
+
+      const { t } = ctx;
+      const { today, month } = this.usageLedger.getUserStats(userId);
+      const limits = this.usageLedger.getLimits();
+      const lines = [
+        t('stats.title'),
+        t('stats.today', { usage: this.formatUsage(t, today, limits.dailyCount, limits.dailyMB) }),
+        t('stats.month', { usage: this.formatUsage(t, month, limits.monthlyCount, limits.monthlyMB) }),
+      ];
+
+      if (this.accessControl.isAdmin(userId)) {
+        const global = this.usageLedger.getGlobalStats();
+        const failureRate = global.month.jobs > 0 ? (global.month.failed / global.month.jobs) * 100 : 0;
+        lines.push(
+          '',
+          t('stats.everyone'),
+          t('stats.global', {
+            usage: this.formatUsage(t, global.month),
+            users: global.users,
+            failureRate: failureRate.toFixed(0),
+          })
+        );
+        if (global.domains.length > 0) {
+          lines.push('', t('stats.topSites'));
+          for (const domain of global.domains) {
+            const rate = (domain.failed / domain.jobs) * 100;
+            lines.push(t('stats.site', { domain: domain.domain, jobs: domain.jobs, failureRate: rate.toFixed(0) }));
+          }
+        }
+      }
+
+      return ctx.reply(lines.join('\n'));
+    });
+
+    // Admin: grant access at runtime, /allow <id> [admin]
+    this.bot.command('allow', async (ctx) => {
+      const userId = ctx.from?.id;
+      if (!userId || !this.accessControl.isAdmin(userId)) {
+        return ctx.reply(ctx.t('access.adminsOnly'));
+      }
+
+      const [idArg, roleArg] = ctx.payload.trim().split(/\s+/);
+      const targetId = Number(idArg);
+      if (!Number.isSafeInteger(targetId) || targetId <= 0 || (roleArg && roleArg !== 'admin' && roleArg !== 'user')) {
+        return ctx.reply(ctx.t('usage.allow'));
+      }
+
+      const role: UserRole = roleArg === 'admin' ? 'admin' : 'user';
+      const name = this.accessControl.getAccessRequest(targetId)?.name;
+      await this.accessControl.allow(targetId, role, userId, name);
+      return ctx.reply(ctx.t('users.allowed', { id: targetId, role: ctx.t(`role.${role}`) }));
+    });
+
+    this.bot.command('revoke', async (ctx) => {
+      const userId = ctx.from?.id;
+      if (!userId || !this.accessControl.isAdmin(userId)) {
+        return ctx.reply(ctx.t('access.adminsOnly'));
+      }
+
+      const targetId = Number(ctx.payload.trim());
+      if (!Number.isSafeInteger(targetId) || targetId <= 0) {
+        return ctx.reply(ctx.t('usage.revoke'));
+      }
+
+      if (this.accessControl.isEnvUser(targetId)) {
+        return ctx.reply(ctx.t('users.envUser'));
+      }
+
+      const removed = await this.accessControl.revoke(targetId);
+      if (removed) {
+        await this.subscriptions?.removeUser(targetId);
+      }
+      return ctx.reply(removed ? ctx.t('users.revoked', { id: targetId }) : ctx.t('users.noAccess'));
+    });
+
+    this.bot.command('users', async (ctx) => {
+      const userId = ctx.from?.id;
+      if (!userId || !this.accessControl.isAdmin(userId)) {
+        return ctx.reply(ctx.t('access.adminsOnly'));
+      }
+
+      const lines = this.accessControl.listUsers().map((user) => {
+        const label = user.name ? ` ${user.name}` : '';
+        const source = user.source === 'env' ? ctx.t('users.fromEnv') : '';
+        return `${user.role === 'admin' ? '👑' : '👤'} ${user.id}${label}${source}`;
+      });
+      return ctx.reply(lines.length > 0 ? ctx.t('users.list', { users: lines.join('\n') }) : ctx.t('users.none'));
+    });
+
+    // Admin: /cookies lists stored cookies, /cookies delete <domain>, /cookies expire <domain> [days]
+    this.bot.command('cookies', async (ctx) => {
+      const userId = ctx.from?.id;
+      if (!userId || !this.accessControl.isAdmin(userId)) {
+        return ctx.reply(ctx.t('access.adminsOnly'));
+      }
+      if (!this.cookieStore) {
+        return ctx.reply(ctx.t('cookies.unavailable'));
+      }
+
+      const [action, domainArg, daysArg] = ctx.payload.trim().split(/\s+/);
+      if (!action) {
+        const entries = this.cookieStore
+          .list()
+          .map((entry) => formatCookieEntry(ctx.t, entry, this.cookieStore!.isExpired(entry)));
+        return ctx.reply(entries.length > 0 ? ctx.t('cookies.list', { entries: entries.join('\n') }) : ctx.t('cookies.none'));
+      }
+
+      const domain = domainArg ? normalizeCookieDomain(domainArg) : undefined;
+      if (action === 'delete' && domain) {
+        const removed = await this.cookieStore.remove(domain);
+        return ctx.reply(ctx.t(removed ? 'cookies.deleted' : 'cookies.notFound', { domain }));
+      }
+
+      // Without a number of days the cookies stop being used right away
+      const days = daysArg ? Number(daysArg) : 0;
+      if (action === 'expire' && domain && Number.isFinite(days) && days >= 0) {
+        const expiresAt = Date.now() + days * DAY_MS;
+        const entry = await this.cookieStore.expire(domain, expiresAt);
+        if (!entry) {
+          return ctx.reply(ctx.t('cookies.notFound', { domain }));
+        }
+        return ctx.reply(
+          days > 0 ? ctx.t('cookies.expiresOn', { domain, date: formatDate(expiresAt) }) : ctx.t('cookies.expired', { domain })
+        );
+      }
+
+      return ctx.reply(ctx.t('usage.cookies'));
+    });
+
+    // Admin: one-time invite link, /invite [admin]
+    this.bot.command('invite', async (ctx) => {
+      const userId = ctx.from?.id;
+      if (!userId || !this.accessControl.isAdmin(userId)) {
+        return ctx.reply(ctx.t('access.adminsOnly'));
+      }
+
+      const role: UserRole = ctx.payload.trim().toLowerCase() === 'admin' ? 'admin' : 'user';
+      const token = await this.accessControl.createInvite(role, userId);
+      const link = `https://t.me/${ctx.botInfo.username}?start=${token}`;
+      return ctx.reply(ctx.t('invite.created', { role: ctx.t(`role.${role}`), link }));
+    });
+
+    // Access requests from denied users, approved by admins
+    this.bot.action('access:request', async (ctx) => {
+      const from = ctx.from;
+      if (this.accessControl.isAllowed(from.id)) {
+        return ctx.answerCbQuery(ctx.t('access.alreadyAllowed'));
+      }
+      if (this.accessControl.getAccessRequest(from.id)) {
+        return ctx.answerCbQuery(ctx.t('access.alreadyRequested'));
+      }
+
+      const name = this.formatUserName(from);
+      await this.accessControl.addAccessRequest({
+        userId: from.id,
+        name,
+        username: from.username,
+        languageCode: from.language_code,
+        requestedAt: Date.now(),
+      });
+      await this.notifyAdmins((t) => [
+        t('access.requestFrom', { name, id: from.id }),
+        Markup.inlineKeyboard([
+          Markup.button.callback(t('access.approve'), `access:approve:${from.id}`),
+          Markup.button.callback(t('access.deny'), `access:deny:${from.id}`),
+        ]),
+      ]);
+
+      await ctx.answerCbQuery(ctx.t('access.requestSent'));
+      await ctx.editMessageText(ctx.t('access.requestSentToAdmins')).catch(() => {});
+    });
+
+    this.bot.action(/^access:(approve|deny):(\d+)$/, async (ctx) => {
+      const adminId = ctx.from.id;
+      const [, decision, idArg] = ctx.match;
+      const targetId = Number(idArg);
+
+      if (!this.accessControl.isAdmin(adminId)) {
+        return ctx.answerCbQuery(ctx.t('access.denied'));
+      }
+
+      const request = this.accessControl.getAccessRequest(targetId);
+      if (!request) {
+        await ctx.editMessageReplyMarkup(undefined).catch(() => {});
+        return ctx.answerCbQuery(ctx.t('access.alreadyHandled'));
+      }
+
+      const requesterT = translator(this.localeFor({ id: targetId, language_code: request.languageCode }));
+      if (decision === 'approve') {
+        await this.accessControl.allow(targetId, 'user', adminId, request.name);
+        await this.bot.telegram
+          .sendMessage(targetId, requesterT('access.approvedNotice'))
+          .catch((error) => logger.warn({ error, userId: targetId }, 'Failed to notify approved user'));
+      } else {
+        await this.accessControl.removeAccessRequest(targetId);
+        await this.bot.telegram
+          .sendMessage(targetId, requesterT('access.declinedNotice'))
+          .catch((error) => logger.warn({ error, userId: targetId }, 'Failed to notify denied user'));
+      }
+
+      const verdict = ctx.t(decision === 'approve' ? 'access.approved' : 'access.declined');
+      await ctx.answerCbQuery(verdict);
+      await ctx
+        .editMessageText(
+          ctx.t('access.decision', {
+            decision: verdict,
+            name: request.name,
+            id: targetId,
+            admin: this.formatUserName(ctx.from),
+          })
+        )
+        .catch(() => {});
+    });
+
+    // "Audio only" buttons under the status message
+    this.bot.action(/^audio:([\w-]+):(\w+)$/, async (ctx) => {
+      const userId = ctx.from?.id;
+      const [, buttonId, format] = ctx.match;
+
+      if (!userId || !this.accessControl.isAllowed(userId)) {
+        return ctx.answerCbQuery(ctx.t('access.denied'));
+      }
+
+      const link = this.audioButtonLinks.get(buttonId);
+      if (!link || !isAudioFormat(format)) {
+        return ctx.answerCbQuery(ctx.t('audio.buttonExpired'));
+      }
+
+      await ctx.answerCbQuery(ctx.t('audio.extracting', { format: format.toUpperCase() }));
+      await this.handleRequest(ctx, userId, [link], { mode: 'audio', audioFormat: format });
+    });
+
+    // Default quality preference: /quality [ask|auto|1080|720|...]
+    this.bot.command('quality', async (ctx) => {
+      const userId = ctx.from?.id;
+      if (!userId || !this.accessControl.isAllowed(userId)) {
+        return this.denyAccess(ctx);
+      }
+
+      if (!this.preferences) {
+        return ctx.reply(ctx.t('quality.unavailable'));
+      }
+
+      const quality = ctx.payload.trim() ? parseQualityPreference(ctx.payload) : undefined;
+      if (quality !== undefined) {
+        await this.preferences.update(userId, { quality });
+        return ctx.reply(ctx.t('quality.set', { quality: this.formatQualityPreference(ctx.t, quality) }));
+      }
+
+      return ctx.reply(ctx.t('quality.choose'), this.buildPreferenceKeyboard(ctx.t, userId));
+    });
+
+    this.bot.action(/^pref:quality:(\w+)$/, async (ctx) => {
+      const userId = ctx.from?.id;
+      const quality = parseQualityPreference(ctx.match[1]);
+      if (!userId || !this.accessControl.isAllowed(userId) || !this.preferences || quality === undefined) {
+        return ctx.answerCbQuery(ctx.t('access.denied'));
+      }
+
+      await this.preferences.update(userId, { quality });
+      await ctx.answerCbQuery(`✅ ${this.formatQualityPreference(ctx.t, quality)}`);
+      await ctx.editMessageReplyMarkup(this.buildPreferenceKeyboard(ctx.t, userId).reply_markup).catch(() => {});
+    });
+
+    // Language override: /language [auto|en|ru]; auto follows the Telegram app language
+    this.bot.command('language', async (ctx) => {
+      const userId = ctx.from?.id;
+      if (!userId || !this.accessControl.isAllowed(userId)) {
+        return this.denyAccess(ctx);
+      }
+
+      if (!this.preferences) {
+        return ctx.reply(ctx.t('language.unavailable'));
+      }
+
+      const choice = ctx.payload.trim().toLowerCase();
+      if (choice === 'auto' || isLocale(choice)) {
+        return ctx.reply(await this.updateLanguage(ctx, userId, choice));
+      }
+
+      return ctx.reply(ctx.t('language.choose'), this.buildLanguageKeyboard(ctx, userId));
+    });
+
+    this.bot.action(/^pref:language:(\w+)$/, async (ctx) => {
+      const userId = ctx.from?.id;
+      const choice = ctx.match[1];
+      if (!userId || !this.accessControl.isAllowed(userId) || !this.preferences || (choice !== 'auto' && !isLocale(choice))) {
+        return ctx.answerCbQuery(ctx.t('access.denied'));
+      }
+
+      await ctx.answerCbQuery(await this.updateLanguage(ctx, userId, choice));
+      await ctx.editMessageText(ctx.t('language.choose'), this.buildLanguageKeyboard(ctx, userId)).catch(() => {});
+    });
+
+    // Quality picker buttons
+    this.bot.action(/^quality:([\w-]+):(\w+)$/, async (ctx) => {
+      const [, pickId, choice] = ctx.match;
+      const pick = this.pendingPicks.get(pickId);
+      if (!pick) {
+        return ctx.answerCbQuery(ctx.t('picker.expired'));
+      }
+
+      if (ctx.from?.id !== pick.userId) {
+        return ctx.answerCbQuery(ctx.t('job.notYoursToChoose'));
+      }
+
+      this.pendingPicks.delete(pickId);
+      await ctx.answerCbQuery();
+      await ctx.deleteMessage().catch(() => {});
+
+      const options: DownloadOptions = choice === 'audio'
+        ? { ...pick.options, mode: 'audio' }
+        : { ...pick.options, maxHeight: choice === 'auto' ? undefined : parseInt(choice, 10) };
+      await this.enqueueUrl(ctx, pick.url, pick.userId, options, pick.batchId);
+    });
+
+    // Cancel button under the status message
+    this.bot.action(/^cancel:([\w-]+)$/, async (ctx) => {
+      await this.cancelJob(ctx, ctx.match[1]);
+    });
+
+    // Group settings (admins): /trigger <auto|mention>, /deletestatus <on|off>
+    this.bot.command('trigger', async (ctx) => {
+      if (!this.isGroupAdminCommand(ctx)) {
+        return;
+      }
+
+      const trigger = ctx.payload.trim().toLowerCase();
+      if (!isGroupTrigger(trigger)) {
+        const current = this.chatSettings!.get(ctx.chat.id).trigger;
+        return ctx.reply(ctx.t('group.trigger', { current, triggers: GROUP_TRIGGERS.join('|') }));
+      }
+
+      await this.chatSettings!.update(ctx.chat.id, { trigger });
+      return ctx.reply(ctx.t(trigger === 'auto' ? 'group.triggerAuto' : 'group.triggerMention'));
+    });
+
+    this.bot.command('deletestatus', async (ctx) => {
+      if (!this.isGroupAdminCommand(ctx)) {
+        return;
+      }
+
+      const value = ctx.payload.trim().toLowerCase();
+      if (value !== 'on' && value !== 'off') {
+        const current = this.chatSettings!.get(ctx.chat.id).deleteStatus ? 'on' : 'off';
+        return ctx.reply(ctx.t('group.deleteStatus', { current }));
+      }
+
+      await this.chatSettings!.update(ctx.chat.id, { deleteStatus: value === 'on' });
+      return ctx.reply(ctx.t(value === 'on' ? 'group.deleteStatusOn' : 'group.deleteStatusOff'));
+    });
+
+    // Admin: a cookies.txt sent as a document with the caption /cookies <domain>
+    this.bot.on(message('document'), async (ctx, next) => {
+      const match = ctx.message.caption?.match(COOKIE_UPLOAD_CAPTION);
+      if (!match) {
+        return next();
+      }
+      if (!this.accessControl.isAdmin(ctx.from.id)) {
+        return ctx.reply(ctx.t('access.adminsOnly'));
+      }
+      if (!this.cookieStore) {
+        return ctx.reply(ctx.t('cookies.unavailable'));
+      }
+
+      // The file holds live sessions, so it shouldn't stay in the chat history
+      await ctx.deleteMessage().catch((error) => logger.warn({ error }, 'Failed to delete cookie upload'));
+      if (ctx.chat.type !== 'private') {
+        return ctx.reply(ctx.t('cookies.privateOnly'));
+      }
+
+      const domain = normalizeCookieDomain(match[1]);
+      if (!domain) {
+        return ctx.reply(ctx.t('cookies.invalidDomain', { domain: match[1] }));
+      }
+
+      try {
+        const { document } = ctx.message;
+        if ((document.file_size ?? 0) > MAX_COOKIE_FILE_BYTES) {
+          throw new CookieFileError('too_large');
+        }
+
+        const content = await this.botApi.downloadFile(ctx.telegram, document.file_id);
+        const entry = await this.cookieStore.set(domain, content.toString('utf8'), ctx.from.id);
+        const lines = [ctx.t('cookies.stored', { domain, count: entry.cookieCount })];
+        if (entry.cookiesExpireAt !== undefined && entry.cookiesExpireAt <= Date.now()) {
+          lines.push(ctx.t('cookies.alreadyExpired'));
+        }
+        return ctx.reply(lines.join('\n'));
+      } catch (error) {
+        if (error instanceof CookieFileError) {
+          return ctx.reply(ctx.t(`cookies.error.${error.problem}`, { line: error.line ?? 0 }));
+        }
+        throw error;
+      }
+    });
+
+    // Handle messages
+    this.bot.on('message', async (ctx) => {
+      const userId = ctx.from?.id;
+      const message = ctx.message;
+
+      if (!userId || !message || !('text' in message || 'caption' in message)) {
+        return;
+      }
+
+      // Links may come in the text, a media caption or a forwarded post
+      const text = messageText(message);
+      if (!text) {
+        return;
+      }
+
+      const isGroup = ctx.chat.type !== 'private';
+      if (isGroup && !this.isGroupTriggered(ctx)) {
+        return;
+      }
+
+      // Check access
+      if (!this.accessControl.isAllowed(userId)) {
+        logger.warn({ userId }, 'Unauthorized access attempt');
+        return this.denyAccess(ctx);
+      }
+
+      // Extract links and clip ranges; a mention in reply to a message with a link downloads that link
+      let links = await this.parseLinks(ctx, text);
+      const repliedTo = message.reply_to_message && messageText(message.reply_to_message);
+      if (links?.length === 0 && isGroup && repliedTo) {
+        links = await this.parseLinks(ctx, repliedTo);
+      }
+      if (!links) {
+        return;
+      }
+
+      if (links.length === 0) {
+        // Groups see plenty of chatter without links; only answer in private
+        return isGroup
+          ? undefined
+          : ctx.reply(ctx.t('message.noUrl'));
+      }
+
+      await this.handleRequest(ctx, userId, links, { mode: 'video' });
+    });
+
+    // Inline mode: @bot <url> in any chat
+    // Answering can take a while (short links, quota); don't hold up other updates meanwhile
+    this.bot.on('inline_query', (ctx) => {
+      void this.handleInlineQuery(ctx);
+    });
+
+    // Error handler
+    // Must never throw itself: a rejected update stops polling
+    this.bot.catch((err, ctx) => {
+      logger.error({ err, ctx }, 'Bot error');
+      // Inline queries and other updates without a chat have nowhere to answer
+      if (ctx.chat) {
+        ctx.reply(ctx.t('error.unexpected')).catch(() => {});
+      }
+    });
+  }
+
+  private isGroupAdminCommand(ctx: BotContext): ctx is BotContext & { chat: { id: number } } {
+    if (!ctx.chat || ctx.chat.type === 'private' || !this.chatSettings) {
+      return false;
+    }
+    return Boolean(ctx.from && this.accessControl.isAdmin(ctx.from.id));
+  }
+
+  private isGroupTriggered(ctx: BotContext): boolean {
+    if (!ctx.chat || !ctx.message || !('text' in ctx.message || 'caption' in ctx.message)) {
+      return false;
+    }
+
+    const trigger = this.chatSettings?.get(ctx.chat.id).trigger ?? 'mention';
+    if (trigger === 'auto') {
+      return true;
+    }
+
+    const message = ctx.message;
+    if (message.reply_to_message?.from?.id === ctx.botInfo.id) {
+      return true;
+    }
+
+    const mention = `@${ctx.botInfo.username}`.toLowerCase();
+    const [text, entities] =
+      'text' in message ? [message.text, message.entities] : [message.caption ?? '', message.caption_entities];
+    return (entities || []).some(
+      (entity) => entity.type === 'mention' && text.slice(entity.offset, entity.offset + entity.length).toLowerCase() === mention
+    );
+  }
+
+  /** Private-chat denial with a button to ask the admins for access. */
+  private denyAccess(ctx: BotContext) {
+    if (ctx.from && this.accessControl.getAccessRequest(ctx.from.id)) {
+      return ctx.reply(ctx.t('access.pending'));
+    }
+    return ctx.reply(
+      ctx.t('access.restricted'),
+      Markup.inlineKeyboard([Markup.button.callback(ctx.t('access.requestButton'), 'access:request')])
+    );
+  }
+
+  /** Sends each admin the message rendered in their language. */
+  private async notifyAdmins(
+    render: (t: Translator) => [string, ReturnType<typeof Markup.inlineKeyboard>?]
+  ): Promise<void> {
+    for (const adminId of this.accessControl.getAdminUserIds()) {
+      const [text, extra] = render(translator(this.localeFor({ id: adminId })));
+      await this.bot.telegram
+        .sendMessage(adminId, text, extra)
+        .catch((error) => logger.warn({ error, adminId }, 'Failed to notify admin'));
+    }
+  }
+
+  /** A saved /language choice wins over the language reported by Telegram. */
+  private localeFor(user?: { id: number; language_code?: string }): Locale {
+    return (user && this.preferences?.get(user.id).language) || resolveLocale(user?.language_code);
+  }
+
+  /** Saves a /language choice and switches the current update over to it; returns the confirmation. */
+  private async updateLanguage(ctx: BotContext, userId: number, choice: Locale | 'auto'): Promise<string> {
+    await this.preferences!.update(userId, { language: choice === 'auto' ? undefined : choice });
+    ctx.locale = this.localeFor(ctx.from);
+    ctx.t = translator(ctx.locale);
+    return ctx.t('language.set', { language: choice === 'auto' ? ctx.t('language.auto') : LOCALE_NAMES[choice] });
+  }
+
+  private formatUserName(user: { first_name: string; last_name?: string; username?: string }): string {
+    const name = [user.first_name, user.last_name].filter(Boolean).join(' ');
+    return user.username ? `${name} (@${user.username})` : name;
+  }
+
+  /** The chat an update came from, quoting its message in groups and staying in its forum topic. */
+  private destinationOf(ctx: BotContext): Destination {
+    const message = ctx.msg;
+    return {
+      chatId: ctx.chat!.id,
+      t: ctx.t,
+      extra: {
+        ...this.replyTo(ctx),
+        message_thread_id: message && 'is_topic_message' in message && message.is_topic_message ? message.message_thread_id : undefined,
+      },
+    };
+  }
+
+  /** In groups, replies quote the message that triggered them. */
+  private replyTo(ctx: Context) {
+    if (!ctx.chat || ctx.chat.type === 'private' || !ctx.message) {
+      return {};
+    }
+    return {
+      reply_parameters: { message_id: ctx.message.message_id, allow_sending_without_reply: true },
+    };
+  }
+
+  /** Links and their clip ranges; replies and returns undefined when a range can't be cut. */
+  private async parseLinks(ctx: BotContext, text: string): Promise<LinkRequest[] | undefined> {
+    try {
+      return extractLinks(text);
+    } catch (error) {
+      if (!(error instanceof ClipRangeError)) {
+        throw error;
+      }
+      await ctx.reply(ctx.t('clip.invalid', { range: error.range }), this.replyTo(ctx));
+      return undefined;
+    }
+  }
+
+  private async handleRequest(
+    ctx: BotContext,
+    userId: number,
+    links: LinkRequest[],
+    options: DownloadOptions
+  ): Promise<void> {
+    links = await this.resolveLinks(ctx, links);
+    if (links.length === 0 || !(await this.checkRequestLimits(ctx, userId))) {
+      return;
+    }
+
+    const batchId = uuidv4();
+    const quality = options.mode === 'audio' ? 'auto' : this.preferences?.getQuality(userId) ?? 'auto';
+
+    if (quality === 'ask') {
+      // Probes wait for a free queue slot; don't hold up the update handler meanwhile
+      void (async () => {
+        for (const { url, clip } of links) {
+          await this.showQualityPicker(ctx, url, userId, batchId, { ...options, clip });
+        }
+      })().catch((error) => logger.error({ userId, error }, 'Quality picker failed'));
+      return;
+    }
+
+    const resolved = typeof quality === 'number' ? { ...options, maxHeight: quality } : options;
+
+    // Queue links in order, each clip as its own job; the user's queue runs them sequentially
+    for (const { url, clip } of links) {
+      await this.enqueueUrl(ctx, url, userId, { ...resolved, clip }, batchId);
+    }
+  }
+
+  /**
+   * Links as the downloader should get them: short links followed, one form
+   * per post and duplicates dropped. Links to unsupported sites are left out;
+   * private chats are told, groups see too many links to answer each.
+   */
+  private async resolveLinks(ctx: BotContext, links: LinkRequest[]): Promise<LinkRequest[]> {
+    const resolved: LinkRequest[] = [];
+    const seen = new Set<string>();
+    const unsupported = new Set<string>();
+
+    for (const link of links) {
+      const { url, domain, supported } = await this.linkResolver.resolve(link.url);
+      const key = `${url} ${link.clip?.start}-${link.clip?.end}`;
+      if (!supported) {
+        unsupported.add(domain);
+      } else if (!seen.has(key)) {
+        seen.add(key);
+        resolved.push({ ...link, url });
+      }
+    }
+
+    if (unsupported.size > 0) {
+      logger.info({ domains: [...unsupported] }, 'Ignoring links to unsupported sites');
+      if (ctx.chat?.type === 'private') {
+        await ctx.reply(ctx.t('link.unsupported', { domains: [...unsupported].join(', ') }), this.replyTo(ctx));
+      }
+    }
+    return resolved;
+  }
+
+  /** Quota and rate limit for a new request; replies and returns false when it can't go ahead. */
+  private async checkRequestLimits(ctx: BotContext, userId: number): Promise<boolean> {
+    const { exceeded } = this.checkQuota(userId);
+    if (exceeded) {
+      await ctx.reply(ctx.t('limit.quota', { reason: describeQuota(ctx.t, exceeded) }));
+      return false;
+    }
+
+    const rateLimit = this.rateLimiter.consume(userId);
+    if (!rateLimit.allowed) {
+      await ctx.reply(ctx.t('limit.rate', { seconds: Math.ceil(rateLimit.retryAfterMs / 1000) }));
+      return false;
+    }
+
+    return true;
+  }
+
+  private async showQualityPicker(
+    ctx: BotContext,
+    url: string,
+    userId: number,
+    batchId: string,
+    options: DownloadOptions
+  ): Promise<void> {
+    const message = await ctx.reply(ctx.t('picker.checking'), this.replyTo(ctx));
+    const probe = await this.jobQueue.runTask(() => this.downloader.probeFormats(url, options.clip));
+
+    if (!probe.success || probe.qualities.length === 0) {
+      // Nothing to choose from (e.g. a photo post); download as usual
+      await ctx.deleteMessage(message.message_id).catch(() => {});
+      await this.enqueueUrl(ctx, url, userId, options, batchId);
+      return;
+    }
+
+    const pickId = uuidv4().slice(0, 8);
+    this.pendingPicks.set(pickId, { url, userId, batchId, options });
+    setTimeout(() => this.pendingPicks.delete(pickId), this.buttonTtlMs).unref();
+
+    const buttons = probe.qualities.slice(0, QUALITY_PICKER_LIMIT).map((quality) => {
+      const size = quality.estimatedSize;
+      const tooLarge = size !== undefined && size > this.maxFileSizeBytes;
+      const label = size !== undefined ? `${quality.height}p · ~${formatBytes(size)}` : `${quality.height}p`;
+      return Markup.button.callback(`${tooLarge ? '⚠️ ' : ''}${label}`, `quality:${pickId}:${quality.height}`);
+    });
+
+    const rows = [];
+    for (let i = 0; i < buttons.length; i += 2) {
+      rows.push(buttons.slice(i, i + 2));
+    }
+    rows.push([
+      Markup.button.callback(ctx.t('picker.auto'), `quality:${pickId}:auto`),
+      Markup.button.callback(ctx.t('picker.audio'), `quality:${pickId}:audio`),
+    ]);
+
+    const heading = probe.title ? ctx.t('picker.chooseFor', { title: probe.title }) : ctx.t('picker.choose');
+    const limitMB = Math.round(this.maxFileSizeBytes / (1024 * 1024));
+    await ctx.telegram
+      .editMessageText(
+        message.chat.id,
+        message.message_id,
+        undefined,
+        `${heading}\n${ctx.t('picker.overLimit', { limit: limitMB })}`,
+        Markup.inlineKeyboard(rows)
+      )
+      .catch((error) => logger.warn({ url, error }, 'Failed to show quality picker'));
+  }
+
+  private async enqueueUrl(
+    ctx: BotContext,
+    url: string,
+    userId: number,
+    options: DownloadOptions,
+    batchId: string
+  ): Promise<void> {
+    const isAudio = options.mode === 'audio';
+
+    logger.info({ userId, url, mode: options.mode, clip: options.clip }, 'Processing URL');
+
+    if (await this.sendFromCache(this.destinationOf(ctx), url, userId, this.getCacheVariant(options))) {
+      return;
+    }
+
+    if (!ctx.chat) {
+      return;
+    }
+
+    const job: UrlJob = {
+      id: uuidv4(),
+      batchId,
+      ctx,
+      url,
+      userId,
+      options,
+      chatId: ctx.chat.id,
+      statusMessageId: 0,
+      deleteStatus: ctx.chat.type !== 'private' && (this.chatSettings?.get(ctx.chat.id).deleteStatus ?? false),
+      // Video downloads offer an "audio only" alternative under the status message
+      audioButtonId: isAudio ? undefined : this.registerAudioButton({ url, clip: options.clip }),
+      abortController: new AbortController(),
+    };
+    this.jobs.set(job.id, job);
+
+    const statusMessage = await ctx.reply(ctx.t('queue.added'), {
+      ...this.replyTo(ctx),
+      ...this.buildStatusKeyboard(job),
+    });
+    job.statusMessageId = statusMessage.message_id;
+
+    try {
+      this.jobQueue.enqueue({
+        id: job.id,
+        userId,
+        run: () => this.processUrl(job),
+        onPositionChange: (position) => {
+          void this.updateStatus(job, job.ctx.t('queue.position', { position }));
+        },
+      });
+    } catch (error) {
+      if (!(error instanceof QueueFullError)) {
+        throw error;
+      }
+      await this.finishJob(job, job.ctx.t('queue.full'));
+    }
+  }
+
+  private async handleInlineQuery(ctx: BotContext & { inlineQuery: { id: string; query: string } }): Promise<void> {
+    try {
+      const userId = ctx.from?.id;
+      // Half-typed ranges that can't be cut yet are treated as no link
+      let link: LinkRequest | undefined;
+      try {
+        [link] = extractLinks(ctx.inlineQuery.query);
+      } catch (error) {
+        if (!(error instanceof ClipRangeError)) {
+          throw error;
+        }
+      }
+
+      const answerWithButton = (text: string) =>
+        ctx.answerInlineQuery([], {
+          cache_time: 0,
+          is_personal: true,
+          button: { text, start_parameter: INLINE_START_PARAMETER },
+        });
+
+      if (!userId || !this.accessControl.isAllowed(userId)) {
+        await answerWithButton(ctx.t('inline.accessRequired'));
+        return;
+      }
+
+      const resolved = link && (await this.linkResolver.resolve(link.url));
+      if (!link || !resolved?.supported) {
+        await ctx.answerInlineQuery([], { cache_time: 0, is_personal: true });
+        return;
+      }
+
+      const { url } = resolved;
+      const { clip } = link;
+      const quality = this.preferences?.getQuality(userId);
+      // There's no picker inline, so "ask" falls back to the best quality that fits
+      const options: DownloadOptions = { mode: 'video', clip, ...(typeof quality === 'number' && { maxHeight: quality }) };
+      const variant = this.getCacheVariant(options);
+
+      const uploadKey = `${variant}:${mediaKey(url)}`;
+      const upload = this.inlineUploads.get(uploadKey);
+      const entry = this.mediaCache?.get(url, variant) ?? upload?.outcome?.entry;
+      if (!entry) {
+        if (this.inlineCacheChatId === undefined) {
+          await answerWithButton(ctx.t('inline.notCached'));
+          return;
+        }
+        if (upload?.outcome) {
+          await answerWithButton(ctx.t('inline.failed', { error: ctx.t(upload.outcome.error ?? 'error.unknown') }).slice(0, 64));
+          return;
+        }
+        if (upload) {
+          await answerWithButton(ctx.t('inline.downloading'));
+          return;
+        }
+
+        const { exceeded } = this.checkQuota(userId);
+        if (exceeded) {
+          await answerWithButton(ctx.t('limit.quotaShort', { reason: describeQuota(ctx.t, exceeded) }).slice(0, 64));
+          return;
+        }
+
+        // Queries come with every keystroke; while one download runs, the rest are ignored
+        const busy = [...this.inlineUploads.values()].some((state) => state.userId === userId && !state.outcome);
+        if (busy) {
+          await answerWithButton(ctx.t('inline.downloading'));
+          return;
+        }
+
+        const rateLimit = this.rateLimiter.consume(userId);
+        if (!rateLimit.allowed) {
+          await answerWithButton(ctx.t('limit.rate', { seconds: Math.ceil(rateLimit.retryAfterMs / 1000) }).slice(0, 64));
+          return;
+        }
+
+        // The result is there for the next query with the same link
+        this.startInlineUpload(uploadKey, url, userId, options, variant);
+        await answerWithButton(ctx.t('inline.downloading'));
+        return;
+      }
+
+      logger.info({ userId, url, variant }, 'Answering inline query');
+      await ctx.answerInlineQuery(this.buildInlineResults(ctx.t, entry, url), { is_personal: true });
+    } catch (error) {
+      // An answer that came too late or failed otherwise; the user can type the query again
+      logger.warn({ userId: ctx.from?.id, error }, 'Failed to answer inline query');
+    }
+  }
+
+  private startInlineUpload(key: string, url: string, userId: number, options: DownloadOptions, variant: string): void {
+    const state: InlineUploadState = { userId };
+    this.inlineUploads.set(key, state);
+
+    const finish = (outcome: InlineUpload) => {
+      state.outcome = outcome;
+      // Finished uploads are reused for a while; failures are shown briefly, then retried
+      setTimeout(() => this.inlineUploads.delete(key), outcome.entry ? this.buttonTtlMs : INLINE_FAILURE_TTL_MS).unref();
+    };
+
+    try {
+      this.jobQueue.enqueue({
+        id: uuidv4(),
+        userId,
+        run: async () => {
+          const outcome = await this.downloadForInline(url, userId, options, variant).catch((error) => {
+            logger.error({ url, error }, 'Inline download failed');
+            return { error: 'error.unknown' as const };
+          });
+          finish(outcome);
+        },
+      });
+    } catch (error) {
+      if (!(error instanceof QueueFullError)) {
+        throw error;
+      }
+      finish({ error: 'inline.queueFull' });
+    }
+  }
+
+  private async downloadForInline(
+    url: string,
+    userId: number,
+    options: DownloadOptions,
+    variant: string
+  ): Promise<InlineUpload> {
+    logger.info({ url, variant }, 'Downloading for inline query');
+    const startedAt = Date.now();
+
+    const result = await this.downloader.download(url, options);
+    await this.trackCookies(url, result);
+    if (!result.success) {
+      await this.recordUsage(userId, url, 'failed', startedAt);
+      return { error: `error.${result.errorCode ?? 'unknown'}` };
+    }
+
+    try {
+      const uploadStartedAt = Date.now();
+      const media = await this.uploadToCacheChat(result, url);
+      this.recordUpload(media.length > 0, uploadStartedAt, result.fileSize);
+      if (media.length === 0) {
+        await this.recordUsage(userId, url, 'failed', startedAt);
+        return { error: 'inline.nothingToSend' };
+      }
+      await this.recordUsage(userId, url, 'success', startedAt, result.fileSize);
+
+      const entry: InlineUpload['entry'] = {
+        media,
+        title: result.title,
+        performer: result.performer,
+        duration: result.duration,
+        metadata: result.metadata,
+        clip: result.clip,
+      };
+      await this.mediaCache?.set(url, variant, entry);
+      return { entry };
+    } catch (error) {
+      logger.error({ url, error }, 'Failed to upload to the inline cache chat');
+      await this.recordUsage(userId, url, 'failed', startedAt);
+      return { error: 'inline.uploadFailed' };
+    } finally {
+      await this.cleanupResult(result);
+    }
+  }
+
+  private async uploadToCacheChat(result: DownloadResult, url: string): Promise<CachedMedia[]> {
+    const chatId = this.inlineCacheChatId!;
+    // Nobody reads the cache chat; inline results get their own caption
+    const caption = this.buildCaption(translator(DEFAULT_LOCALE), url, result);
+    const items: MediaItem[] = result.items?.length ? result.items : [{ type: 'video', filePath: result.filePath! }];
+    const sent: CachedMedia[] = [];
+
+    // Each item becomes its own inline result, so nothing is sent as a media group
+    for (const item of items) {
+      const media = this.botApi.toInputFile(item.filePath);
+      const extra = { caption, parse_mode: 'HTML' as const, disable_notification: true };
+
+      if (item.type === 'photo') {
+        sent.push(toCachedMedia(await this.bot.telegram.sendPhoto(chatId, media, extra)));
+        continue;
+      }
+
+      try {
+        sent.push(toCachedMedia(await this.bot.telegram.sendVideo(chatId, media, { ...extra, ...videoAttributes(item) })));
+      } catch (error) {
+        logger.warn({ error }, 'Failed to upload as video, trying as document');
+        sent.push(toCachedMedia(await this.bot.telegram.sendDocument(chatId, media, extra)));
+      }
+    }
+
+    return sent;
+  }
+
+  private buildInlineResults(t: Translator, entry: Pick<CacheEntry, 'media'> & CaptionInfo, url: string): InlineQueryResult[] {
+    const title = entry.title && entry.title !== 'Unknown' ? entry.title : url;
+
+    return entry.media.map((media, index): InlineQueryResult => {
+      const id = String(index);
+      const caption = this.buildCaption(t, url, entry, entry.media.length > 1 ? `${index + 1}/${entry.media.length}` : undefined);
+      const extra = { id, caption, parse_mode: 'HTML' as const };
+
+      switch (media.type) {
+        case 'photo':
+          return { ...extra, type: 'photo', photo_file_id: media.fileId };
+        case 'audio':
+          return { ...extra, type: 'audio', audio_file_id: media.fileId };
+        case 'document':
+          return { ...extra, type: 'document', document_file_id: media.fileId, title };
+        default:
+          return { ...extra, type: 'video', video_file_id: media.fileId, title };
+      }
+    });
+  }
+
+  /** Admins aren't subject to usage limits. */
+  private checkQuota(userId: number): QuotaCheck {
+    if (!this.usageLedger || this.accessControl.isAdmin(userId)) {
+      return { allowed: true };
+    }
+    return this.usageLedger.checkQuota(userId);
+  }
+
+  private async recordUsage(
+    userId: number,
+    url: string,
+    outcome: UsageOutcome,
+    startedAt: number,
+    bytes = 0
+  ): Promise<void> {
+    metrics.downloads.inc({ outcome, domain: getDomain(url) });
+    await this.usageLedger
+      ?.record({ userId, domain: getDomain(url), bytes, durationMs: Date.now() - startedAt, outcome })
+      .catch((error) => logger.warn({ userId, error }, 'Failed to record usage'));
+  }
+
+  /** Keeps count of logins the site still asked for despite stored cookies; admins hear once they look stale. */
+  private async trackCookies(url: string, result: DownloadResult): Promise<void> {
+    if (!this.cookieStore) {
+      return;
+    }
+
+    try {
+      if (result.success) {
+        await this.cookieStore.recordSuccess(url);
+        return;
+      }
+      if (result.errorCode !== 'login_required') {
+        return;
+      }
+
+      const stale = await this.cookieStore.recordAuthFailure(url);
+      if (stale) {
+        await this.notifyAdmins((t) => [
+          t('cookies.staleWarning', { domain: stale.domain, failures: stale.authFailures }),
+        ]);
+      }
+    } catch (error) {
+      logger.warn({ url, error }, 'Failed to track cookie health');
+    }
+  }
+
+  private recordUpload(sent: boolean, startedAt: number, bytes = 0): void {
+    metrics.uploadDuration.observe({ outcome: sent ? 'success' : 'failed' }, (Date.now() - startedAt) / 1000);
+    if (sent) {
+      metrics.bytesSent.inc({}, bytes);
+    }
+  }
+
+  /** A page of a /history list with re-send buttons for its items and buttons to turn pages. */
+  private renderHistory(
+    t: Translator,
+    viewId: string,
+    view: HistoryView,
+    page: number
+  ): { text: string; keyboard?: ReturnType<typeof Markup.inlineKeyboard> } {
+    const { items, total } = this.library!.search(view.userId, view.query, page, HISTORY_PAGE_SIZE);
+    if (total === 0) {
+      return { text: view.query ? t('history.noMatches', { query: view.query }) : t('history.none') };
+    }
+
+    const pages = Math.ceil(total / HISTORY_PAGE_SIZE);
+    const numberOf = (index: number) => page * HISTORY_PAGE_SIZE + index + 1;
+    const entries = items
+      .map((item, index) =>
+        t('history.entry', {
+          index: numberOf(index),
+          title: item.title ?? item.url,
+          domain: item.domain,
+          date: formatDate(item.createdAt),
+        })
+      )
+      .join('\n');
+    const text = view.query
+      ? t('history.listMatching', { query: view.query, total, page: page + 1, pages, entries })
+      : t('history.list', { total, page: page + 1, pages, entries });
+
+    const navigation = [
+      ...(page > 0 ? [Markup.button.callback('◀️', `history:page:${viewId}:${page - 1}`)] : []),
+      ...(page < pages - 1 ? [Markup.button.callback('▶️', `history:page:${viewId}:${page + 1}`)] : []),
+    ];
+    const keyboard = Markup.inlineKeyboard([
+      items.map((item, index) => Markup.button.callback(`📤 ${numberOf(index)}`, `history:send:${item.id}`)),
+      ...(navigation.length > 0 ? [navigation] : []),
+    ]);
+    return { text, keyboard };
+  }
+
+  private async showPlaylistConfirmation(
+    ctx: BotContext,
+    url: string,
+    userId: number,
+    range: string | undefined
+  ): Promise<void> {
+    const message = await ctx.reply(ctx.t('playlist.listing'), this.replyTo(ctx));
+    const edit = (text: string, extra?: ReturnType<typeof Markup.inlineKeyboard>) =>
+      ctx.telegram.editMessageText(message.chat.id, message.message_id, undefined, text, extra).catch(() => {});
+
+    const probe = await this.jobQueue.runTask(() => this.downloader.listPlaylist(url, range, this.playlistMaxItems));
+    if (!probe.success) {
+      await edit(formatDownloadError(ctx.t, probe));
+      return;
+    }
+    if (probe.entries.length === 0) {
+      await edit(ctx.t('playlist.empty'));
+      return;
+    }
+
+    const quality = this.preferences?.getQuality(userId);
+    const options: DownloadOptions = typeof quality === 'number' ? { mode: 'video', maxHeight: quality } : { mode: 'video' };
+
+    const playlistId = uuidv4().slice(0, 8);
+    this.pendingPlaylists.set(playlistId, { url, userId, entries: probe.entries, options });
+    setTimeout(() => this.pendingPlaylists.delete(playlistId), this.buttonTtlMs).unref();
+
+    const knownSizes = probe.entries.filter((entry) => entry.estimatedSize !== undefined);
+    const totalSize = knownSizes.reduce((sum, entry) => sum + (entry.estimatedSize ?? 0), 0);
+    const count = probe.entries.length;
+    const lines = [
+      `📃 ${probe.title || ctx.t('playlist.untitled')}`,
+      knownSizes.length > 0
+        ? ctx.t('playlist.itemsWithSize', { count, size: formatBytes(totalSize) })
+        : ctx.t('playlist.items', { count }),
+    ];
+    if (probe.truncated) {
+      lines.push(ctx.t('playlist.truncated', { max: this.playlistMaxItems }));
+    }
+    lines.push('', ctx.t('playlist.confirm'));
+
+    await edit(
+      lines.join('\n'),
+      Markup.inlineKeyboard([
+        Markup.button.callback(ctx.t('playlist.download'), `playlist:${playlistId}:go`),
+        Markup.button.callback(ctx.t('job.cancelButton'), `playlist:${playlistId}:cancel`),
+      ])
+    );
+  }
 
-export class Bot {
-  private bot: Telegraf<BotContext>;
-  private accessControl: AccessControl;
-  private downloader: Downloader;
-  private userSessions: Map<number, SessionData> = new Map();
-  private readonly cooldownMs = 5000;
-  private readonly maxFileSizeBytes: number;
+  private async subscribe(ctx: BotContext, userId: number, url: string, filters: SubscriptionFilters): Promise<void> {
+    const resolved = await this.linkResolver.resolve(url);
+    if (!resolved.supported) {
+      await ctx.reply(ctx.t('link.unsupported', { domains: resolved.domain }), this.replyTo(ctx));
+      return;
+    }
 
-  constructor(
-    telegramToken: string,
-    accessControl: AccessControl,
-    downloader: Downloader,
-    maxFileSizeMB: number
-  ) {
-    this.bot = new Telegraf<BotContext>(telegramToken);
-    this.accessControl = accessControl;
-    this.downloader = downloader;
-    this.maxFileSizeBytes = maxFileSizeMB * 1024 * 1024;
+    const message = await ctx.reply(ctx.t('subscriptions.checking'), this.replyTo(ctx));
+    const edit = (text: string) =>
+      ctx.telegram
+        .editMessageText(message.chat.id, message.message_id, undefined, text, { link_preview_options: { is_disabled: true } })
+        .catch(() => {});
 
-    this.setupHandlers();
+    const probe = await this.jobQueue.runTask(() =>
+      this.downloader.listPlaylist(resolved.url, `1:${SUBSCRIPTION_CHECK_ITEMS}`, SUBSCRIPTION_CHECK_ITEMS)
+    );
+    if (!probe.success) {
+      await edit(formatDownloadError(ctx.t, probe));
+      return;
+    }
+    if (!probe.isPlaylist) {
+      await edit(ctx.t('subscriptions.notAChannel'));
+      return;
+    }
+
+    try {
+      const subscription = await this.subscriptions!.add({
+        chatId: message.chat.id,
+        userId,
+        url: resolved.url,
+        title: probe.title,
+        filters,
+        // What's there already isn't new
+        seenIds: probe.entries.map(entryKey),
+      });
+      logger.info({ userId, chatId: subscription.chatId, subscriptionId: subscription.id, url: subscription.url }, 'Subscribed');
+
+      const lines = [
+        ctx.t('subscriptions.added', { title: subscription.title ?? subscription.url, minutes: this.subscriptionCheckMinutes }),
+        ...describeFilters(ctx.t, filters),
+      ];
+      await edit(lines.join('\n'));
+    } catch (error) {
+      if (!(error instanceof SubscriptionLimitError)) {
+        throw error;
+      }
+      await edit(ctx.t('subscriptions.limit', { limit: error.limit }));
+    }
   }
 
-  private setupHandlers(): void {
-    // Start command
-    this.bot.start((ctx) => {
-      const userId = ctx.from?.id;
-      if (!userId || !this.accessControl.isAllowed(userId)) {
-        return ctx.reply('❌ Access denied. This bot is restricted to authorized users only.');
+  /**
+   * Sends a new entry of a subscription to the subscribed chat. Runs through
+   * the download queue as a job of the subscriber, whose quality preference,
+   * quota and language it uses.
+   */
+  private deliverSubscriptionEntry(subscription: Subscription, entry: PlaylistEntry): Promise<DeliveryOutcome> {
+    const { userId } = subscription;
+    // Access can also be lost without /revoke, e.g. when removed from ALLOWED_USER_IDS
+    if (!this.accessControl.isAllowed(userId)) {
+      return (this.subscriptions?.removeUser(userId) ?? Promise.resolve(0)).then((removed) => {
+        logger.warn({ userId, removed }, 'Subscriber has no access anymore, removed their subscriptions');
+        return 'failed';
+      });
+    }
+    if (this.checkQuota(userId).exceeded) {
+      return Promise.resolve('postponed');
+    }
+
+    return new Promise<DeliveryOutcome>((resolve) => {
+      try {
+        this.jobQueue.enqueue({
+          id: uuidv4(),
+          userId,
+          run: async () => resolve(await this.sendSubscriptionEntry(subscription, entry)),
+        });
+      } catch (error) {
+        if (!(error instanceof QueueFullError)) {
+          throw error;
+        }
+        resolve('postponed');
       }
-      ctx.reply(
-        '👋 Welcome! Send me a link from Instagram, TikTok, YouTube, Twitter, or any supported platform and I\'ll download it for you.'
-      );
     });
+  }
 
-    // Handle messages
-    this.bot.on('message', async (ctx) => {
-      const userId = ctx.from?.id;
-      const message = ctx.message;
+  private async sendSubscriptionEntry(subscription: Subscription, entry: PlaylistEntry): Promise<DeliveryOutcome> {
+    const { chatId, userId } = subscription;
+    const { url } = entry;
+    const to: Destination = { chatId, t: translator(this.localeFor({ id: userId })), extra: {} };
+    const quality = this.preferences?.getQuality(userId);
+    const options: DownloadOptions = typeof quality === 'number' ? { mode: 'video', maxHeight: quality } : { mode: 'video' };
+    const startedAt = Date.now();
+    logger.info({ subscriptionId: subscription.id, chatId, url }, 'Delivering subscription entry');
 
-      if (!userId || !message || !('text' in message)) {
-        return;
+    try {
+      const { outcome, failed } = await this.deliver(to, url, userId, options);
+      // The site may well work again by the next check; the entry is tried again then
+      if (failed?.errorCode && isTransientError(failed.errorCode)) {
+        return 'retry';
       }
-
-      const text = message.text;
-      if (!text) {
-        return;
+      return outcome === 'success' || outcome === 'cached' ? 'sent' : 'failed';
+    } catch (error) {
+      // The bot was removed from the chat or blocked by the user: stop posting there
+      if (error instanceof TelegramError && error.code === 403) {
+        const removed = await this.subscriptions?.removeChat(chatId);
+        logger.warn({ chatId, removed }, 'Chat is gone, removed its subscriptions');
+      } else {
+        logger.error({ subscriptionId: subscription.id, url, error }, 'Failed to deliver subscription entry');
       }
+      await this.recordUsage(userId, url, 'failed', startedAt);
+      return 'failed';
+    }
+  }
 
-      // Check access
-      if (!this.accessControl.isAllowed(userId)) {
-        logger.warn({ userId }, 'Unauthorized access attempt');
-        return ctx.reply('❌ Access denied. This bot is restricted to authorized users only.');
-      }
+  private async enqueuePlaylist(ctx: BotContext, playlist: PendingPlaylist): Promise<void> {
+    const statusMessage = ctx.callbackQuery?.message;
+    if (!ctx.chat || !statusMessage) {
+      return;
+    }
 
-      // Check cooldown
-      const session = this.userSessions.get(userId);
-      if (session?.isProcessing) {
-        return ctx.reply('⏳ Please wait for the current download to complete.');
-      }
+    const job: UrlJob = {
+      id: uuidv4(),
+      batchId: uuidv4(),
+      ctx,
+      url: playlist.url,
+      userId: playlist.userId,
+      options: playlist.options,
+      chatId: ctx.chat.id,
+      // The confirmation message turns into the status message
+      statusMessageId: statusMessage.message_id,
+      deleteStatus: false,
+      abortController: new AbortController(),
+    };
+    this.jobs.set(job.id, job);
+    await this.updateStatus(job, ctx.t('queue.addedItems', { count: playlist.entries.length }));
 
-      if (session && Date.now() - session.lastRequestTime < this.cooldownMs) {
-        return ctx.reply('⏳ Please wait a few seconds before sending another request.');
+    try {
+      this.jobQueue.enqueue({
+        id: job.id,
+        userId: job.userId,
+        run: () => this.processPlaylist(job, playlist.entries),
+        onPositionChange: (position) => {
+          void this.updateStatus(job, job.ctx.t('queue.position', { position }));
+        },
+      });
+    } catch (error) {
+      if (!(error instanceof QueueFullError)) {
+        throw error;
       }
+      await this.finishJob(job, job.ctx.t('queue.full'));
+    }
+  }
 
-      // Extract URLs
-      const urls = extractUrls(text);
-      if (urls.length === 0) {
-        return ctx.reply('❓ Please send a valid URL. I support Instagram, TikTok, YouTube, Twitter, and more.');
-      }
+  /** Downloads and sends playlist entries one after another; the cancel button stops the rest. */
+  private async processPlaylist(job: UrlJob, entries: PlaylistEntry[]): Promise<void> {
+    const { t } = job.ctx;
+    let sent = 0;
+    let failed = 0;
+    let stopReason: string | undefined;
 
-      // Set session
-      this.userSessions.set(userId, { isProcessing: true, lastRequestTime: Date.now() });
+    try {
+      for (const [index, entry] of entries.entries()) {
+        if (job.abortController.signal.aborted) {
+          stopReason = t('job.cancelled');
+          break;
+        }
 
-      try {
-        // Process URLs sequentially
-        for (const url of urls) {
-          await this.processUrl(ctx, url, userId);
+        const { exceeded } = this.checkQuota(job.userId);
+        if (exceeded) {
+          stopReason = t('limit.quotaShort', { reason: describeQuota(t, exceeded) });
+          break;
+        }
+
+        job.progressPrefix = `📃 ${index + 1}/${entries.length}${entry.title ? ` · ${entry.title}` : ''}`;
+        job.phase = undefined;
+        await this.updateStatus(job, `${job.progressPrefix}\n${t('status.downloading')}`);
+
+        const outcome = await this.downloadPlaylistEntry(job, entry.url);
+        if (outcome === 'cancelled') {
+          stopReason = t('job.cancelled');
+          break;
+        }
+        if (outcome === 'failed') {
+          failed++;
+        } else {
+          sent++;
         }
-      } finally {
-        // Reset session
-        this.userSessions.set(userId, { isProcessing: false, lastRequestTime: Date.now() });
       }
-    });
+    } catch (error) {
+      logger.error({ userId: job.userId, url: job.url, error }, 'Failed to process playlist');
+      stopReason = t('playlist.stoppedAfterError');
+    }
 
-    // Error handler
-    this.bot.catch((err, ctx) => {
-      logger.error({ err, ctx }, 'Bot error');
-      ctx.reply('❌ An error occurred. Please try again later.');
-    });
+    const summary = failed > 0
+      ? t('playlist.summaryFailed', { sent, total: entries.length, failed })
+      : t('playlist.summary', { sent, total: entries.length });
+    await this.finishJob(job, stopReason ? t('playlist.stopped', { reason: stopReason, summary }) : t('playlist.done', { summary }));
   }
 
-  private async processUrl(
-    ctx: BotContext,
-    url: string,
-    userId: number
-  ): Promise<void> {
-    logger.info({ userId, url }, 'Processing URL');
+  private async downloadPlaylistEntry(job: UrlJob, entryUrl: string): Promise<UsageOutcome> {
+    const { ctx, userId, options } = job;
+    // Entries are links like any other: cached and checked in their canonical form
+    const { url, domain, supported } = await this.linkResolver.resolve(entryUrl);
+    if (!supported) {
+      logger.info({ userId, url, domain }, 'Skipping playlist entry on an unsupported site');
+      return 'failed';
+    }
+
+    const { outcome } = await this.deliver(this.destinationOf(ctx), url, userId, options, job, () =>
+      this.updateStatus(job, `${job.progressPrefix}\n${ctx.t('status.uploading')}`)
+    );
+    return outcome;
+  }
 
-    const statusMessage = await ctx.reply(`🔄 Downloading...`);
+  private async cancelJob(ctx: BotContext, jobId: string): Promise<void> {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      await ctx.answerCbQuery(ctx.t('job.finished'));
+      return;
+    }
 
-    if (!ctx.chat) {
+    if (ctx.from?.id !== job.userId) {
+      await ctx.answerCbQuery(ctx.t('job.notYoursToCancel'));
       return;
     }
 
-    const chatId = ctx.chat.id;
+    logger.info({ userId: job.userId, url: job.url, jobId }, 'Cancelling job');
+
+    // Drop links from the same message that are still waiting (including this one if it hasn't started)
+    const removed = this.jobQueue.remove(job.userId, (queued) => this.jobs.get(queued.id)?.batchId === job.batchId);
+    for (const queued of removed) {
+      const queuedJob = this.jobs.get(queued.id);
+      if (queuedJob) {
+        await this.finishJob(queuedJob, queuedJob.ctx.t('job.cancelled'));
+      }
+    }
+
+    // A running download is killed; processUrl reports the cancellation
+    job.abortController.abort();
+    await ctx.answerCbQuery(ctx.t('job.cancelled'));
+  }
+
+  private async processUrl(job: UrlJob): Promise<void> {
+    const { ctx, url, userId, options } = job;
+    const isAudio = options.mode === 'audio';
+    const startedAt = Date.now();
 
     try {
-      const result = await this.downloader.download(url);
+      await this.updateStatus(job, ctx.t(isAudio ? 'status.extractingAudio' : 'status.downloading'));
 
-      if (!result.success) {
-        await ctx.telegram.editMessageText(
-          chatId,
-          statusMessage.message_id,
-          undefined,
-          `❌ Error: ${result.error}`
-        );
+      const { outcome, failed } = await this.deliver(this.destinationOf(ctx), url, userId, options, job, async () => {
+        // The upload can't be interrupted, so the job stops being cancellable here
+        this.jobs.delete(job.id);
+        await this.updateStatus(job, ctx.t(isAudio ? 'status.uploadingAudio' : 'status.uploading'));
+      });
+
+      if (outcome === 'cancelled') {
+        await this.finishJob(job, ctx.t('job.cancelled'));
+        return;
+      }
+      if (failed) {
+        await this.finishJob(job, formatDownloadError(ctx.t, failed));
         return;
       }
 
-      await ctx.telegram.editMessageText(
-        chatId,
-        statusMessage.message_id,
-        undefined,
-        `✅ Download complete! Sending video...`
+      if (job.audioButtonId && !job.deleteStatus) {
+        // Keep the status message so the "audio only" buttons stay usable
+        await this.updateStatus(job, ctx.t('status.doneWithAudio'));
+      } else {
+        // Delete status message
+        await ctx.telegram.deleteMessage(job.chatId, job.statusMessageId).catch(() => {});
+      }
+    } catch (error) {
+      logger.error({ userId, url, error }, 'Failed to process URL');
+      await this.recordUsage(userId, url, 'failed', startedAt);
+      await this.finishJob(
+        job,
+        ctx.t('job.failedToProcess', { error: error instanceof Error ? error.message : ctx.t('error.unknown') })
       );
+    } finally {
+      this.jobs.delete(job.id);
+    }
+  }
 
-      // Send video
-      await this.sendVideo(ctx, result, url);
+  private async finishJob(job: UrlJob, text: string): Promise<void> {
+    this.jobs.delete(job.id);
+    await this.updateStatus(job, text, false);
+  }
 
-      // Delete status message
-      await ctx.telegram.deleteMessage(chatId, statusMessage.message_id).catch(() => {});
-    } catch (error) {
-      logger.error({ userId, url, error }, 'Failed to process URL');
-      await ctx.telegram.editMessageText(
-        chatId,
-        statusMessage.message_id,
-        undefined,
-        `❌ Failed to process: ${error instanceof Error ? error.message : 'Unknown error'}`
+  private async reportProgress(job: UrlJob, progress: DownloadProgress): Promise<void> {
+    // Phase changes are shown right away, progress within a phase is throttled
+    const phaseChanged = job.phase !== progress.phase;
+    if (!phaseChanged && Date.now() - (job.statusUpdatedAt || 0) < this.progressIntervalMs) {
+      return;
+    }
+
+    job.phase = progress.phase;
+    await this.updateStatus(job, this.formatProgress(job, progress));
+  }
+
+  private formatProgress(job: UrlJob, progress: DownloadProgress): string {
+    const { t } = job.ctx;
+    const item = progress.itemCount && progress.itemCount > 1
+      ? t('progress.item', { index: progress.itemIndex ?? 1, count: progress.itemCount })
+      : '';
+
+    const lines = job.progressPrefix ? [job.progressPrefix] : [];
+
+    if (progress.phase === 'processing') {
+      lines.push(t('progress.processing', { item }));
+      return lines.join('\n');
+    }
+
+    lines.push(t(job.options.mode === 'audio' ? 'progress.extractingAudio' : 'progress.downloading', { item }));
+
+    if (progress.percent !== undefined) {
+      lines.push(`${renderProgressBar(progress.percent)} ${progress.percent.toFixed(0)}%`);
+    }
+
+    const details: string[] = [];
+    if (progress.downloadedBytes !== undefined) {
+      details.push(
+        progress.totalBytes
+          ? `${formatBytes(progress.downloadedBytes)} / ${formatBytes(progress.totalBytes)}`
+          : formatBytes(progress.downloadedBytes)
       );
     }
+    if (progress.speed) {
+      details.push(`${formatBytes(progress.speed)}/s`);
+    }
+    if (progress.eta !== undefined) {
+      details.push(t('progress.eta', { eta: formatDuration(progress.eta) }));
+    }
+    if (details.length > 0) {
+      lines.push(details.join(' • '));
+    }
+
+    return lines.join('\n');
+  }
+
+  private async updateStatus(job: UrlJob, text: string, withKeyboard = true): Promise<void> {
+    // Telegram rejects edits that don't change the message
+    if (job.statusText === text) {
+      return;
+    }
+    job.statusText = text;
+    job.statusUpdatedAt = Date.now();
+
+    await job.ctx.telegram
+      .editMessageText(
+        job.chatId,
+        job.statusMessageId,
+        undefined,
+        text,
+        withKeyboard ? this.buildStatusKeyboard(job) : undefined
+      )
+      .catch((error) => {
+        logger.debug({ jobId: job.id, error }, 'Failed to update status message');
+      });
+  }
+
+  /**
+   * Sends a link's media: from the cache when it's there, else downloaded
+   * and sent. Usage is recorded. A job's download reports its progress and
+   * can be cancelled; `onUploading` runs between download and upload. Errors
+   * other than a failed download are left to the caller.
+   */
+  private async deliver(
+    to: Destination,
+    url: string,
+    userId: number,
+    options: DownloadOptions,
+    job?: UrlJob,
+    onUploading?: () => Promise<void>
+  ): Promise<Delivery> {
+    const startedAt = Date.now();
+    const cacheVariant = this.getCacheVariant(options);
+    if (await this.sendFromCache(to, url, userId, cacheVariant)) {
+      return { outcome: 'cached' };
+    }
+
+    const result = await this.downloader.download(
+      url,
+      options,
+      job && {
+        onProgress: (progress) => {
+          void this.reportProgress(job, progress);
+        },
+        signal: job.abortController.signal,
+      }
+    );
+
+    if (result.cancelled || job?.abortController.signal.aborted) {
+      await this.cleanupResult(result);
+      await this.recordUsage(userId, url, 'cancelled', startedAt);
+      return { outcome: 'cancelled' };
+    }
+
+    await this.trackCookies(url, result);
+    if (!result.success) {
+      logger.warn({ userId, url, error: result.error, errorCode: result.errorCode }, 'Download failed');
+      await this.recordUsage(userId, url, 'failed', startedAt);
+      return { outcome: 'failed', failed: result };
+    }
+
+    await onUploading?.();
+    const uploadStartedAt = Date.now();
+    const sentMedia = await this.sendDownload(to, result, url, userId, cacheVariant);
+    this.recordUpload(sentMedia.length > 0, uploadStartedAt, result.fileSize);
+
+    const outcome = sentMedia.length > 0 ? 'success' : 'failed';
+    await this.recordUsage(userId, url, outcome, startedAt, result.fileSize);
+    return { outcome };
+  }
+
+  /** Sends a link's cached media; false when there is none or it can't be sent anymore. */
+  private async sendFromCache(to: Destination, url: string, userId: number, cacheVariant: string): Promise<boolean> {
+    const cached = this.mediaCache?.get(url, cacheVariant);
+    if (!cached) {
+      return false;
+    }
+
+    try {
+      await this.sendCached(to, cached, url);
+    } catch (error) {
+      // The file_id may no longer be valid; forget it and download again
+      logger.warn({ url, error }, 'Failed to send cached media, downloading again');
+      await this.mediaCache?.invalidate(url);
+      return false;
+    }
+
+    logger.info({ userId, url, variant: cacheVariant }, 'Served from cache');
+    await this.addToHistory(userId, url, cached);
+    await this.recordUsage(userId, url, 'cached', Date.now());
+    return true;
+  }
+
+  /**
+   * Sends a finished download, caches its file_ids and adds it to the user's
+   * history. Its temp files are removed right away, or once the archive has
+   * copied them in the background. Returns what was sent, which may be only
+   * some of the parts of a split video.
+   */
+  private async sendDownload(
+    to: Destination,
+    result: DownloadResult,
+    url: string,
+    userId: number,
+    cacheVariant: string
+  ): Promise<CachedMedia[]> {
+    let archiving: Promise<void> | undefined;
+    try {
+      const sentMedia = await this.sendVideo(to, result, url);
+      // Some parts of a split video alone would be served as the whole video later
+      const complete = result.fitStrategy !== 'split' || sentMedia.length === (result.items?.length ?? 0);
+      if (complete) {
+        await this.mediaCache?.set(url, cacheVariant, {
+          media: sentMedia,
+          title: result.title,
+          performer: result.performer,
+          duration: result.duration,
+          metadata: result.metadata,
+          clip: result.clip,
+        });
+      }
+
+      const item = await this.addToHistory(userId, url, { ...result, media: sentMedia });
+      if (item && this.library) {
+        const files = result.items?.length ? result.items.map((mediaItem) => mediaItem.filePath) : [result.filePath];
+        archiving = this.library.archive(item, files.filter((file): file is string => Boolean(file)));
+      }
+      return sentMedia;
+    } finally {
+      if (archiving) {
+        // Doesn't hold up the queue: the media was sent already
+        void archiving.finally(() => this.cleanupResult(result));
+      } else {
+        await this.cleanupResult(result);
+      }
+    }
+  }
+
+  /** Never fails: the media was sent already, whatever happens to its history. */
+  private async addToHistory(userId: number, url: string, entry: SendableMedia): Promise<LibraryItem | undefined> {
+    const { media, title, performer, duration, metadata, clip } = entry;
+    try {
+      return await this.library?.add({ userId, url, media, title, performer, duration, metadata, clip });
+    } catch (error) {
+      logger.error({ userId, url, error }, 'Failed to add to history');
+      return undefined;
+    }
   }
 
   private async sendVideo(
-    ctx: Context,
+    to: Destination,
     result: DownloadResult,
     url: string
-  ): Promise<void> {
+  ): Promise<CachedMedia[]> {
     if (!result.filePath) {
-      return;
+      return [];
+    }
+
+    const caption = this.buildCaption(to.t, url, result, this.describeFit(to.t, result));
+
+    if (result.mediaType === 'audio') {
+      try {
+        const message = await this.bot.telegram.sendAudio(
+          to.chatId,
+          this.botApi.toInputFile(result.filePath),
+          {
+            ...to.extra,
+            caption,
+            parse_mode: 'HTML',
+            performer: result.performer,
+            title: result.title,
+            duration: result.duration,
+          }
+        );
+        return [{ type: 'audio', fileId: message.audio.file_id }];
+      } catch (error) {
+        logger.error({ error }, 'Failed to send audio');
+        await this.bot.telegram.sendMessage(to.chatId, to.t('send.failed', { title: result.title ?? '' }), to.extra);
+        return [];
+      }
+    }
+
+    const items = result.items || [];
+
+    if (result.fitStrategy === 'split') {
+      const { sent, error } = await this.sendVideoParts(to, items, url, result);
+      if (error) {
+        logger.error({ error, sent: sent.length, parts: items.length }, 'Failed to send video parts');
+        await this.bot.telegram
+          .sendMessage(to.chatId, to.t('send.failed', { title: result.title ?? '' }), to.extra)
+          .catch(() => {});
+      }
+      // Parts already delivered still count, even when a later one failed
+      return sent;
     }
 
-    const caption = this.buildCaption(url, result.title);
+    if (items.length > 1 || items[0]?.type === 'photo') {
+      try {
+        return await this.sendMediaItems(
+          to,
+          items.map((item) => ({
+            type: item.type,
+            media: this.botApi.toInputFile(item.filePath),
+            attributes: item.type === 'video' ? videoAttributes(item) : undefined,
+          })),
+          caption
+        );
+      } catch (error) {
+        logger.error({ error }, 'Failed to send media group');
+        await this.bot.telegram.sendMessage(to.chatId, to.t('send.failed', { title: result.title ?? '' }), to.extra);
+        return [];
+      }
+    }
 
     try {
       // Try sending as video first
-      await ctx.replyWithVideo(
-        { source: result.filePath },
+      const message = await this.bot.telegram.sendVideo(
+        to.chatId,
+        this.botApi.toInputFile(result.filePath),
         {
+          ...to.extra,
+          ...videoAttributes(items[0]),
           caption,
           parse_mode: 'HTML',
         }
       );
+      return [{ type: 'video', fileId: message.video.file_id }];
     } catch (error) {
       logger.warn({ error }, 'Failed to send as video, trying as document');
 
       try {
         // Fallback: send as document
-        await ctx.replyWithDocument(
-          { source: result.filePath },
+        const message = await this.bot.telegram.sendDocument(
+          to.chatId,
+          this.botApi.toInputFile(result.filePath),
           {
+            ...to.extra,
             caption,
             parse_mode: 'HTML',
           }
         );
+        return [{ type: 'document', fileId: message.document.file_id }];
       } catch (docError) {
         logger.error({ docError }, 'Failed to send as document');
-        await ctx.reply(`❌ Failed to send file: ${result.title}`);
+        await this.bot.telegram.sendMessage(to.chatId, to.t('send.failed', { title: result.title ?? '' }), to.extra);
+        return [];
       }
-    } finally {
-      // Cleanup
-      await cleanupTempDir(result.filePath).catch(() => {});
     }
   }
 
-  private buildCaption(url: string, title?: string): string {
-    let caption = '';
+  private async sendVideoParts(
+    to: Destination,
+    items: MediaItem[],
+    url: string,
+    info: CaptionInfo
+  ): Promise<{ sent: CachedMedia[]; error?: unknown }> {
+    const sent: CachedMedia[] = [];
+
+    // Parts go out one by one, in order, each labelled with its number; a failure stops the rest
+    try {
+      for (const [index, item] of items.entries()) {
+        const caption = this.buildCaption(to.t, url, info, to.t('caption.part', { index: index + 1, count: items.length }));
+        const message = await this.bot.telegram.sendVideo(to.chatId, this.botApi.toInputFile(item.filePath), {
+          ...to.extra,
+          ...videoAttributes(item),
+          caption,
+          parse_mode: 'HTML',
+        });
+        sent.push(toCachedMedia(message));
+      }
+    } catch (error) {
+      return { sent, error };
+    }
+
+    return { sent };
+  }
+
+  private describeFit(t: Translator, result: DownloadResult): string | undefined {
+    if (result.fitStrategy === 'reencode') {
+      return t('caption.reencoded', { limit: Math.round(this.maxFileSizeBytes / (1024 * 1024)) });
+    }
+    if (result.fitStrategy === 'split') {
+      return t('caption.split', { count: result.items?.length ?? 1 });
+    }
+    return undefined;
+  }
+
+  private async sendCached(to: Destination, entry: SendableMedia, url: string): Promise<void> {
+    const caption = this.buildCaption(to.t, url, entry);
+    const [first] = entry.media;
+
+    if (entry.media.length === 1 && first.type !== 'photo') {
+      const extra = { ...to.extra, caption, parse_mode: 'HTML' as const };
+      if (first.type === 'audio') {
+        await this.bot.telegram.sendAudio(to.chatId, first.fileId, {
+          ...extra,
+          performer: entry.performer,
+          title: entry.title,
+          duration: entry.duration,
+        });
+      } else if (first.type === 'document') {
+        await this.bot.telegram.sendDocument(to.chatId, first.fileId, extra);
+      } else {
+        await this.bot.telegram.sendVideo(to.chatId, first.fileId, extra);
+      }
+      return;
+    }
+
+    await this.sendMediaItems(
+      to,
+      entry.media.map((media) => ({ type: media.type === 'photo' ? 'photo' : 'video', media: media.fileId })),
+      caption
+    );
+  }
+
+  private async sendMediaItems(
+    to: Destination,
+    items: OutgoingMediaItem[],
+    caption: string
+  ): Promise<CachedMedia[]> {
+    const sent: CachedMedia[] = [];
+
+    // Telegram accepts at most 10 items per media group; the caption goes on the very first item
+    for (let i = 0; i < items.length; i += MEDIA_GROUP_LIMIT) {
+      const chunk = items.slice(i, i + MEDIA_GROUP_LIMIT);
+      const chunkCaption = i === 0 ? caption : undefined;
+
+      // A media group needs at least two items
+      if (chunk.length === 1) {
+        const [item] = chunk;
+        const extra = { ...to.extra, caption: chunkCaption, parse_mode: 'HTML' as const };
+        const message = item.type === 'photo'
+          ? await this.bot.telegram.sendPhoto(to.chatId, item.media, extra)
+          : await this.bot.telegram.sendVideo(to.chatId, item.media, { ...extra, ...item.attributes });
+        sent.push(toCachedMedia(message));
+        continue;
+      }
+
+      const messages = await this.bot.telegram.sendMediaGroup(
+        to.chatId,
+        chunk.map((item, index) => ({
+          type: item.type,
+          media: item.media,
+          ...item.attributes,
+          ...(index === 0 && chunkCaption ? { caption: chunkCaption, parse_mode: 'HTML' as const } : {}),
+        })),
+        to.extra
+      );
+      sent.push(...messages.map(toCachedMedia));
+    }
+
+    return sent;
+  }
+
+  private async cleanupResult(result: DownloadResult): Promise<void> {
+    const tempDir = result.tempDir || (result.filePath && path.dirname(result.filePath));
+    if (tempDir) {
+      await cleanupTempDir(tempDir).catch(() => {});
+    }
+  }
+
+  private getCacheVariant(options: DownloadOptions): string {
+    const resolved = this.downloader.resolveOptions(options);
+    const parts: string[] = [resolved.mode];
+    if (resolved.mode === 'audio') {
+      parts.push(resolved.audioFormat);
+    } else {
+      if (resolved.maxHeight) {
+        parts.push(`${resolved.maxHeight}p`);
+      }
+      // Only an explicitly requested strategy changes what gets sent
+      if (options.fitStrategy) {
+        parts.push(options.fitStrategy);
+      }
+    }
+    if (resolved.clip) {
+      parts.push(`clip=${resolved.clip.start}-${resolved.clip.end ?? ''}`);
+    }
+    return parts.join(':');
+  }
+
+  private formatUsage(t: Translator, summary: UsageSummary, countLimit = 0, mbLimit = 0): string {
+    const count = countLimit > 0 ? `${summary.succeeded}/${countLimit}` : `${summary.succeeded}`;
+    const size = mbLimit > 0
+      ? t('stats.sizeOfLimit', { size: formatBytes(summary.bytes), limit: mbLimit })
+      : formatBytes(summary.bytes);
+    return summary.failed > 0
+      ? t('stats.usageFailed', { count, size, failed: summary.failed })
+      : t('stats.usage', { count, size });
+  }
 
-    if (title && title !== 'Unknown') {
-      // Escape HTML special characters
-      const escapedTitle = title
-        .replace(/&/g, '&amp;')
-        .replace(/</g, '&lt;')
-        .replace(/>/g, '&gt;');
-      caption += `<b>${escapedTitle}</b>\n`;
+  private formatQualityPreference(t: Translator, quality: QualityPreference): string {
+    if (quality === 'ask') {
+      return t('quality.ask');
     }
+    return quality === 'auto' ? t('quality.auto') : `${quality}p`;
+  }
+
+  private buildPreferenceKeyboard(t: Translator, userId: number) {
+    const current = this.preferences?.getQuality(userId);
+    return Markup.inlineKeyboard(
+      PREFERRED_QUALITIES.map((quality) => [
+        Markup.button.callback(
+          `${quality === current ? '✅ ' : ''}${this.formatQualityPreference(t, quality)}`,
+          `pref:quality:${quality}`
+        ),
+      ])
+    );
+  }
 
-    caption += `\n🔗 <a href="${url}">Source</a>`;
+  private buildLanguageKeyboard(ctx: BotContext, userId: number) {
+    const current = this.preferences?.get(userId).language ?? 'auto';
+    const choices: (Locale | 'auto')[] = ['auto', ...LOCALES];
+    return Markup.inlineKeyboard(
+      choices.map((choice) => [
+        Markup.button.callback(
+          `${choice === current ? '✅ ' : ''}${choice === 'auto' ? ctx.t('language.auto') : LOCALE_NAMES[choice]}`,
+          `pref:language:${choice}`
+        ),
+      ])
+    );
+  }
+
+  private registerAudioButton(link: LinkRequest): string {
+    const buttonId = uuidv4().slice(0, 8);
+    this.audioButtonLinks.set(buttonId, link);
+    setTimeout(() => this.audioButtonLinks.delete(buttonId), this.buttonTtlMs).unref();
+    return buttonId;
+  }
+
+  private buildStatusKeyboard(job: UrlJob) {
+    const rows = [];
 
-    // Telegram caption limit is 1024 characters
-    if (caption.length > 1024) {
-      caption = caption.substring(0, 1021) + '...';
+    if (job.audioButtonId) {
+      rows.push(
+        AUDIO_FORMATS.map((format) =>
+          Markup.button.callback(`🎵 ${format.toUpperCase()}`, `audio:${job.audioButtonId}:${format}`)
+        )
+      );
+    }
+
+    // Only queued and downloading jobs can be cancelled
+    if (this.jobs.has(job.id)) {
+      rows.push([Markup.button.callback(job.ctx.t('job.cancelButton'), `cancel:${job.id}`)]);
     }
 
-    return caption;
+    return rows.length > 0 ? Markup.inlineKeyboard(rows) : undefined;
+  }
+
+  private buildCaption(t: Translator, url: string, info: CaptionInfo, note?: string): string {
+    return renderCaption(this.captionTemplate, t, url, info, note);
+  }
+
+  /** Health probe: the Bot API answers getMe within a few seconds. */
+  async checkConnection(timeoutMs = 10_000): Promise<void> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error('Telegram API did not respond')), timeoutMs);
+    });
+
+    try {
+      await Promise.race([this.bot.telegram.getMe(), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
   }
 
-  async launch(): Promise<void> {
-    logger.info('Starting bot...');
-    await this.bot.launch();
-    logger.info('Bot is running');
+  /** With polling this resolves only once the bot is stopped. */
+  async launch(transport: BotTransport = { type: 'polling' }): Promise<void> {
+    logger.info({ transport: transport.type }, 'Starting bot...');
+    this.subscriptionScheduler?.start();
 
-    // Graceful shutdown
-    process.once('SIGINT', () => this.stop());
-    process.once('SIGTERM', () => this.stop());
+    if (transport.type === 'webhook') {
+      await this.startWebhook(transport);
+      logger.info({ url: transport.url, path: transport.path }, 'Bot is running');
+      return;
+    }
+
+    await this.bot.launch(() => logger.info('Bot is running'));
   }
 
   async stop(): Promise<void> {
     logger.info('Stopping bot...');
-    await this.bot.stop();
+    this.subscriptionScheduler?.stop();
+    if (this.webhook) {
+      await this.bot.telegram
+        .deleteWebhook()
+        .catch((error) => logger.warn({ error }, 'Failed to delete webhook'));
+    } else {
+      this.bot.stop();
+    }
     logger.info('Bot stopped');
   }
+
+  private async startWebhook(config: WebhookConfig): Promise<void> {
+    // Polling fetches this on launch; webhook updates need it for mentions and invite links
+    this.bot.botInfo ??= await this.bot.telegram.getMe();
+
+    config.server.route(config.path, this.bot.webhookCallback(config.path, { secretToken: config.secretToken }));
+    await this.bot.telegram.setWebhook(`${config.url.replace(/\/+$/, '')}${config.path}`, {
+      secret_token: config.secretToken,
+    });
+    this.webhook = config;
+  }
 }
@@ -0,0 +1,178 @@
+import { MediaMetadata } from '../services/downloader';
+import { Translator } from '../i18n';
+import { ClipRange, formatClipRange } from '../utils/clip';
+import { formatDuration } from '../utils/progress';
+
+// What a caption can say about the media besides its source
+export interface CaptionInfo {
+  title?: string;
+  duration?: number;
+  metadata?: MediaMetadata;
+  clip?: ClipRange;
+}
+
+export const CAPTION_PLACEHOLDERS = [
+  'title',
+  'uploader',
+  'date',
+  'duration',
+  'views',
+  'description',
+  'source',
+  'url',
+  'clip',
+  'note',
+] as const;
+
+export type CaptionPlaceholder = (typeof CAPTION_PLACEHOLDERS)[number];
+
+export const DEFAULT_CAPTION_TEMPLATE = '<b>{title}</b>\n👤 {uploader} · 📅 {date}\n\n🔗 {source}\n⏱ {clip}\n{note}';
+
+// Telegram counts the caption limit in characters after HTML parsing
+const CAPTION_LIMIT = 1024;
+
+// Shortened, in this order, when the caption is too long
+const SHRINKABLE: CaptionPlaceholder[] = ['description', 'title'];
+// Shorter than this, a value says nothing; the template is what's too long then
+const MIN_SHRUNK_LENGTH = 20;
+
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+// Parts of a line separated like this are dropped one by one when their placeholders are empty
+const SEGMENT_SEPARATOR = ' · ';
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function toPlainText(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, '&');
+}
+
+function visibleLength(html: string): number {
+  return toPlainText(html).length;
+}
+
+function truncate(text: string, maxLength: number): string {
+  if (text.length <= maxLength) {
+    return text;
+  }
+  if (maxLength <= 1) {
+    return '';
+  }
+  // Don't leave half of a surrogate pair behind
+  const cut = text.slice(0, maxLength - 1).replace(/[\uD800-\uDBFF]$/, '');
+  return `${cut.trimEnd()}…`;
+}
+
+/** "1234567" as "1.2M"; the same in every language. */
+function formatCount(count: number): string {
+  const units: [number, string][] = [[1e9, 'B'], [1e6, 'M'], [1e3, 'K']];
+  for (const [size, suffix] of units) {
+    if (count >= size) {
+      return `${parseFloat((count / size).toFixed(count >= size * 10 ? 0 : 1))}${suffix}`;
+    }
+  }
+  return String(count);
+}
+
+/** Placeholders in a template that CAPTION_PLACEHOLDERS doesn't know. */
+export function findUnknownPlaceholders(template: string): string[] {
+  const names = [...template.matchAll(PLACEHOLDER_PATTERN)].map(([, name]) => name);
+  return names.filter((name) => !(CAPTION_PLACEHOLDERS as readonly string[]).includes(name));
+}
+
+/**
+ * Fills in a caption template. Values are HTML-escaped while the template
+ * itself may use Telegram's HTML tags. A " · " part of a line whose
+ * placeholders are all empty is left out, and so is a line left with nothing.
+ */
+function fillTemplate(template: string, values: Partial<Record<CaptionPlaceholder, string>>): string {
+  const lines = template.split('\n').map((line) => {
+    if (!line.trim()) {
+      return line;
+    }
+
+    const segments = line
+      .split(SEGMENT_SEPARATOR)
+      .map((segment) => {
+        let filled = false;
+        let empty = false;
+        const text = segment.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+          if (!(CAPTION_PLACEHOLDERS as readonly string[]).includes(name)) {
+            return placeholder;
+          }
+          const value = values[name as CaptionPlaceholder];
+          if (value) {
+            filled = true;
+          } else {
+            empty = true;
+          }
+          return value ?? '';
+        });
+        return empty && !filled ? undefined : text;
+      })
+      .filter((segment): segment is string => segment !== undefined);
+
+    return segments.length > 0 ? segments.join(SEGMENT_SEPARATOR) : undefined;
+  });
+
+  return lines
+    .filter((line): line is string => line !== undefined)
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Renders a caption from a template, keeping it within Telegram's limit:
+ * the description and then the title are shortened first, so the HTML is
+ * never cut in the middle of a tag.
+ */
+export function renderCaption(template: string, t: Translator, url: string, info: CaptionInfo, note?: string): string {
+  const { metadata } = info;
+  const raw: Partial<Record<CaptionPlaceholder, string>> = {
+    title: info.title && info.title !== 'Unknown' ? info.title : undefined,
+    uploader: metadata?.uploader,
+    date: metadata?.uploadDate,
+    duration: info.duration ? formatDuration(info.duration) : undefined,
+    views: metadata?.viewCount !== undefined ? formatCount(metadata.viewCount) : undefined,
+    description: metadata?.description?.trim(),
+    clip: info.clip && formatClipRange(info.clip),
+    note,
+  };
+
+  const render = () => {
+    const values: Partial<Record<CaptionPlaceholder, string>> = {
+      source: `<a href="${escapeHtml(url)}">${escapeHtml(t('caption.source'))}</a>`,
+      url: escapeHtml(url),
+    };
+    for (const [name, value] of Object.entries(raw) as [CaptionPlaceholder, string | undefined][]) {
+      values[name] = value && escapeHtml(value);
+    }
+    return fillTemplate(template, values);
+  };
+
+  let caption = render();
+  for (const name of SHRINKABLE) {
+    const overflow = visibleLength(caption) - CAPTION_LIMIT;
+    const value = raw[name];
+    if (overflow <= 0) {
+      return caption;
+    }
+    if (value) {
+      raw[name] = truncate(value, Math.max(value.length - overflow, Math.min(value.length, MIN_SHRUNK_LENGTH)));
+      caption = render();
+    }
+  }
+
+  if (visibleLength(caption) <= CAPTION_LIMIT) {
+    return caption;
+  }
+  // The template alone is too long: fall back to plain text, cut to the limit
+  return escapeHtml(truncate(toPlainText(caption), CAPTION_LIMIT));
+}
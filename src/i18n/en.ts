@@ -0,0 +1,250 @@
+/**
+ * English messages; the reference catalog every other locale must cover.
+ * "{name}" placeholders are filled in by translate().
+ */
+export const en = {
+  // Access and invites
+  'access.restricted': '❌ Access denied. This bot is restricted to authorized users only.',
+  'access.requestButton': '🙋 Request access',
+  'access.pending': '⏳ Your access request is pending admin approval.',
+  'access.denied': '❌ Access denied.',
+  'access.adminsOnly': '❌ This command is available to admins only.',
+  'access.alreadyAllowed': '✅ You already have access.',
+  'access.alreadyRequested': '⏳ Your request is already pending.',
+  'access.requestSent': '📨 Request sent.',
+  'access.requestSentToAdmins': '⏳ Your access request was sent to the admins.',
+  'access.requestFrom': '🙋 Access request from {name} ({id})',
+  'access.approve': '✅ Approve',
+  'access.deny': '🚫 Deny',
+  'access.approved': '✅ Approved',
+  'access.declined': '🚫 Denied',
+  'access.decision': '{decision}: {name} ({id}) by {admin}',
+  'access.alreadyHandled': 'ℹ️ This request was already handled.',
+  'access.approvedNotice': '🎉 Your access request was approved. Send me a link to get started.',
+  'access.declinedNotice': '🚫 Your access request was declined.',
+  'invite.accepted': '🎉 Invite accepted.',
+  'invite.acceptedAdmin': '🎉 Invite accepted. You are now an admin.',
+  'invite.invalid': '⌛ This invite link is invalid or has expired.',
+  'invite.created': '🔗 One-time {role} invite, valid for 7 days:\n{link}',
+  'role.admin': 'admin',
+  'role.user': 'user',
+
+  // Commands
+  'start.welcome':
+    "👋 Welcome! Send me a link from Instagram, TikTok, YouTube, Twitter, or any supported platform and I'll download it for you.",
+  'clip.invalid': "❓ Can't cut {range}: the end has to come after the start, e.g. 1:20-2:05.",
+  'link.unsupported': "🚫 Links to {domains} aren't supported.",
+  'message.noUrl': '❓ Please send a valid URL. I support Instagram, TikTok, YouTube, Twitter, and more.',
+  'usage.audio': '❓ Usage: /audio <url> [{formats}]',
+  'usage.fit': '❓ Usage: /fit <{strategies}> <url>',
+  'usage.playlist': '❓ Usage: /playlist <url> [range], e.g. 10 (first ten), 5-8, -5 (last five) or 1,3,7',
+  'usage.subscribe':
+    '❓ Usage: /subscribe <channel, account or playlist url> [max=<duration>] [keyword=<word>], e.g. max=10:00 keyword=recipe',
+  'usage.unsubscribe': '❓ Usage: /unsubscribe <id or url>, see /subscriptions for the ids',
+  'usage.uncache': '❓ Usage: /uncache <url> or /uncache all',
+  'usage.allow': '❓ Usage: /allow <user id> [admin]',
+  'usage.revoke': '❓ Usage: /revoke <user id>',
+  'usage.cookies':
+    '❓ Usage: /cookies, /cookies delete <domain> or /cookies expire <domain> [days]\nTo add cookies, send a cookies.txt file with the caption /cookies <domain>.',
+  'cache.disabled': 'ℹ️ The download cache is disabled.',
+  'cache.cleared': '🗑 Cache cleared ({count} entries).',
+  'cache.removed': '🗑 Removed {count} cached entries.',
+  'cache.notCached': 'ℹ️ Nothing cached for this URL.',
+  'users.allowed': '✅ User {id} can now use the bot as {role}.',
+  'users.envUser': "ℹ️ This user is configured through the environment and can't be revoked here.",
+  'users.revoked': '🚫 Access revoked for {id}.',
+  'users.noAccess': 'ℹ️ This user has no access.',
+  'users.list': '👥 Users:\n{users}',
+  'users.fromEnv': ' (env)',
+  'users.none': 'ℹ️ No users yet.',
+  'group.trigger': 'ℹ️ Trigger: {current}. Usage: /trigger <{triggers}>',
+  'group.triggerAuto': '✅ I will download every link posted here.',
+  'group.triggerMention': '✅ I will only download links when mentioned or replied to.',
+  'group.deleteStatus': 'ℹ️ Delete status messages: {current}. Usage: /deletestatus <on|off>',
+  'group.deleteStatusOn': '✅ Status messages will be deleted after sending.',
+  'group.deleteStatusOff': '✅ Status messages will be kept after sending.',
+  'error.unexpected': '❌ An error occurred. Please try again later.',
+
+  // Cookies
+  'cookies.unavailable': 'ℹ️ Cookie storage is not available.',
+  'cookies.privateOnly': '🔒 Cookies can only be uploaded in a private chat with the bot.',
+  'cookies.invalidDomain': '❓ "{domain}" is not a valid domain, e.g. instagram.com',
+  'cookies.stored': '🍪 Stored {count} cookies for {domain}. Downloads from this site use them from now on.',
+  'cookies.alreadyExpired': '⚠️ All of these cookies have already expired; the site will probably still ask for a login.',
+  'cookies.error.too_large': '❌ This file is too large to be a cookies.txt.',
+  'cookies.error.empty': '❌ No cookies found. Export them in the Netscape cookies.txt format.',
+  'cookies.error.invalid_line': '❌ Line {line} is not in the Netscape cookies.txt format.',
+  'cookies.error.no_domain_cookies': '❌ The file has no cookies for this domain.',
+  'cookies.list': '🍪 Stored cookies:\n{entries}',
+  'cookies.none': 'ℹ️ No cookies stored. Send a cookies.txt file with the caption /cookies <domain>.',
+  'cookies.entry': '• {domain} — {count} cookies, added {date}',
+  'cookies.entryDisabled': '  ⌛ not used since {date}',
+  'cookies.entryExpiresOn': '  ⏳ used until {date}',
+  'cookies.entryCookiesExpired': '  ⚠️ the cookies themselves expired on {date}',
+  'cookies.entryStale': '  ⚠️ {failures} downloads in a row needed a login, probably stale',
+  'cookies.deleted': '🗑 Cookies for {domain} deleted.',
+  'cookies.notFound': 'ℹ️ No cookies stored for {domain}.',
+  'cookies.expired': '⌛ Cookies for {domain} are no longer used.',
+  'cookies.expiresOn': '⏳ Cookies for {domain} will be used until {date}.',
+  'cookies.staleWarning':
+    '⚠️ Cookies for {domain} look stale: {failures} downloads in a row needed a login. Upload fresh ones with the caption /cookies {domain}.',
+
+  // Preferences
+  'quality.unavailable': 'ℹ️ Quality preferences are not available.',
+  'quality.set': '✅ Default quality set to {quality}.',
+  'quality.choose': '🎚 Choose your default quality:',
+  'quality.ask': 'ask every time',
+  'quality.auto': 'auto (best that fits)',
+  'language.unavailable': 'ℹ️ Language preferences are not available.',
+  'language.set': '✅ Language set to {language}.',
+  'language.choose': '🌐 Choose your language:',
+  'language.auto': 'Automatic (Telegram language)',
+
+  // Usage and limits
+  'stats.unavailable': 'ℹ️ Usage statistics are not available.',
+  'stats.title': '📊 Your usage',
+  'stats.today': 'Today: {usage}',
+  'stats.month': 'This month: {usage}',
+  'stats.everyone': '🌍 Everyone this month',
+  'stats.global': '{usage} by {users} users, {failureRate}% failed',
+  'stats.topSites': 'Top sites:',
+  'stats.site': '• {domain}: {jobs} jobs, {failureRate}% failed',
+  'stats.usage': '{count} downloads, {size}',
+  'stats.usageFailed': '{count} downloads, {size}, {failed} failed',
+  'stats.sizeOfLimit': '{size} of {limit} MB',
+  'limit.quota': '🚫 Usage limit: {reason}. Try again later.',
+  'limit.quotaShort': '🚫 Usage limit: {reason}',
+  'limit.rate': '⏳ Too many requests. Please wait {seconds} s.',
+  'quota.daily.count': 'daily limit of {limit} downloads reached',
+  'quota.daily.mb': 'daily limit of {limit} MB reached',
+  'quota.monthly.count': 'monthly limit of {limit} downloads reached',
+  'quota.monthly.mb': 'monthly limit of {limit} MB reached',
+
+  // Queue and progress
+  'queue.added': '⏳ Added to the queue...',
+  'queue.addedItems': '⏳ Added to the queue — {count} items',
+  'queue.position': '⏳ Queued — position {position} in line',
+  'queue.full': '⏳ You have too many links waiting. Please wait for some to finish.',
+  'job.cancelled': '✖️ Cancelled',
+  'job.cancelButton': '✖️ Cancel',
+  'job.finished': 'This download has already finished.',
+  'job.notYoursToCancel': 'Only the person who sent this link can cancel it.',
+  'job.notYoursToChoose': 'Only the person who sent this link can choose.',
+  'job.failedToProcess': '❌ Failed to process: {error}',
+  'status.downloading': '🔄 Downloading...',
+  'status.extractingAudio': '🎵 Extracting audio...',
+  'status.uploading': '📤 Uploading...',
+  'status.uploadingAudio': '📤 Uploading audio...',
+  'status.doneWithAudio': '✅ Done. Need just the audio?',
+  'progress.item': ' (item {index}/{count})',
+  'progress.processing': '⚙️ Merging / re-encoding{item}...',
+  'progress.downloading': '🔄 Downloading{item}...',
+  'progress.extractingAudio': '🎵 Extracting audio{item}...',
+  'progress.eta': 'ETA {eta}',
+  'audio.extracting': '🎵 Extracting {format}...',
+  'audio.buttonExpired': '⌛ This button has expired. Send the link again.',
+
+  // Quality picker
+  'picker.checking': '🔍 Checking available formats...',
+  'picker.expired': '⌛ This picker has expired. Send the link again.',
+  'picker.choose': '🎚 Choose quality:',
+  'picker.chooseFor': '🎚 Choose quality for "{title}":',
+  'picker.overLimit': '⚠️ = larger than the {limit} MB upload limit',
+  'picker.auto': '✨ Auto',
+  'picker.audio': '🎵 Audio',
+
+  // Playlists
+  'playlist.listing': '🔍 Listing entries...',
+  'playlist.empty': 'ℹ️ Nothing to download in this range.',
+  'playlist.untitled': 'Playlist',
+  'playlist.items': '{count} items',
+  'playlist.itemsWithSize': '{count} items, roughly {size}',
+  'playlist.truncated': '⚠️ Limited to the first {max} items of the range.',
+  'playlist.confirm': 'Download them?',
+  'playlist.download': '📥 Download',
+  'playlist.expired': '⌛ This confirmation has expired. Send the command again.',
+  'playlist.downloading': '📥 Downloading {count} items',
+  'playlist.stoppedAfterError': '❌ Playlist stopped after an error',
+  'playlist.summary': '{sent}/{total} sent',
+  'playlist.summaryFailed': '{sent}/{total} sent, {failed} failed',
+  'playlist.stopped': '{reason} — {summary}',
+  'playlist.done': '✅ Playlist done — {summary}',
+
+  // Subscriptions
+  'subscriptions.unavailable': 'ℹ️ Subscriptions are not available.',
+  'subscriptions.checking': '🔍 Checking the channel...',
+  'subscriptions.notAChannel': '❓ This link is a single post. Subscribe to a channel, account or playlist instead.',
+  'subscriptions.added': '📬 Subscribed to {title}. New posts are checked every {minutes} minutes and sent here.',
+  'subscriptions.limit': '⚠️ This chat already has {limit} subscriptions. Remove one with /unsubscribe first.',
+  'subscriptions.removed': '🗑 Unsubscribed from {title}.',
+  'subscriptions.notFound': 'ℹ️ No such subscription in this chat, see /subscriptions.',
+  'subscriptions.list': '📬 Subscriptions:\n{entries}',
+  'subscriptions.none': 'ℹ️ No subscriptions in this chat. Add one with /subscribe <url>.',
+  'subscriptions.entry': '• {id} — {title}\n  {url}',
+  'subscriptions.filterDuration': '  ⏱ up to {duration}',
+  'subscriptions.filterKeyword': '  🔎 titles with "{keyword}"',
+  'subscriptions.failing': '  ⚠️ the last {failures} checks failed: {error}',
+
+  // History
+  'history.unavailable': 'ℹ️ History is not available.',
+  'history.list': '📚 Your downloads ({total}), page {page}/{pages}:\n{entries}',
+  'history.listMatching': '📚 Your downloads matching "{query}" ({total}), page {page}/{pages}:\n{entries}',
+  'history.entry': '{index}. {title} — {domain} · {date}',
+  'history.none': 'ℹ️ Nothing downloaded yet. Everything the bot sends you shows up here.',
+  'history.noMatches': 'ℹ️ None of your downloads match "{query}".',
+  'history.expired': '⌛ This list has expired. Send /history again.',
+  'history.notYours': 'Only the person who asked for this list can use it.',
+  'history.gone': 'ℹ️ This item is no longer in your history.',
+  'history.sending': '📤 Sending...',
+  'history.sendFailed': "❌ Couldn't send it again. Send the link to download it anew.",
+
+  // Sending
+  'send.failed': '❌ Failed to send file: {title}',
+  'caption.source': 'Source',
+  'caption.part': '✂️ Part {index}/{count}',
+  'caption.reencoded': '🗜 Re-encoded to fit the {limit} MB upload limit',
+  'caption.split': '✂️ Split into {count} parts to fit the upload limit',
+
+  // Inline mode; button texts are cut to 64 characters
+  'inline.accessRequired': '🔒 Access required — open the bot',
+  'inline.notCached': '📥 Not downloaded yet — open the bot',
+  'inline.downloading': '⏳ Downloading… type the link again in a moment',
+  'inline.failed': '❌ {error}',
+  'inline.queueFull': 'Too many links waiting',
+  'inline.nothingToSend': 'Nothing to send',
+  'inline.uploadFailed': 'Failed to upload',
+
+  // Download errors, by DownloadErrorCode
+  'download.failed': '❌ Error: {error}',
+  'download.hint': '💡 {hint}',
+  'error.private': 'This content is private',
+  'error.login_required': 'Authentication required to access this content',
+  'error.geo_restricted': 'This content is not available in your region',
+  'error.unavailable': 'This content is no longer available',
+  'error.unsupported': 'This URL is not supported',
+  'error.no_formats': 'No downloadable formats found',
+  'error.rate_limited': 'The site is rate-limiting downloads',
+  'error.server_error': 'The site returned a server error',
+  'error.network': 'Network error while downloading',
+  'error.extractor_outdated': 'The site has changed and the downloader needs an update',
+  'error.timeout': 'Download timeout',
+  'error.too_large': 'File is too large',
+  'error.processing_failed': 'Failed to process the video',
+  'error.no_media': 'No media found after download',
+  'error.spawn_failed': 'The downloader failed to start',
+  'error.cancelled': 'Download cancelled',
+  'error.unknown': 'Failed to download content',
+  'hint.private': 'Only the owner and approved followers can see it. Ask an admin to add cookies of an account with access.',
+  'hint.login_required': 'The site wants a logged-in account. Ask an admin to add cookies for this site.',
+  'hint.geo_restricted': "The content is region-locked and can't be reached from the bot's server location.",
+  'hint.unavailable': 'It may have been deleted or made private. Check that the link opens in a browser.',
+  'hint.unsupported': 'Send a link to a single video or post page.',
+  'hint.rate_limited': 'The site is throttling the bot. Try again in a few minutes.',
+  'hint.server_error': 'The site is having problems. Try again later.',
+  'hint.network': 'The connection to the site failed. Try again later.',
+  'hint.extractor_outdated': 'The site changed its pages and yt-dlp needs an update. Please tell an admin.',
+  'hint.timeout': 'The download took too long. Try a lower quality or /audio.',
+  'hint.too_large': "Telegram bots can't send a file this large.",
+};
+
+export type MessageKey = keyof typeof en;
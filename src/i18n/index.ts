@@ -0,0 +1,48 @@
+import { en, MessageKey } from './en';
+import { ru } from './ru';
+
+export { MessageKey };
+
+export type Locale = 'en' | 'ru';
+
+export type MessageParams = Record<string, string | number>;
+
+export type Translator = (key: MessageKey, params?: MessageParams) => string;
+
+export const LOCALES: Locale[] = ['en', 'ru'];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// Shown in the language picker, each in its own language
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  ru: 'Русский',
+};
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { en, ru };
+
+export function isLocale(value: string): value is Locale {
+  return (LOCALES as string[]).includes(value);
+}
+
+/** Maps a Telegram language_code such as "ru" or "en-US" to a supported locale. */
+export function resolveLocale(languageCode?: string): Locale {
+  const language = languageCode?.toLowerCase().split('-')[0] ?? '';
+  return isLocale(language) ? language : DEFAULT_LOCALE;
+}
+
+export function isMessageKey(key: string): key is MessageKey {
+  return key in en;
+}
+
+/** Looks up a message and fills in its "{name}" placeholders; unknown placeholders are left as is. */
+export function translate(locale: Locale, key: MessageKey, params: MessageParams = {}): string {
+  const message = CATALOGS[locale][key] ?? en[key];
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+}
+
+export function translator(locale: Locale): Translator {
+  return (key, params) => translate(locale, key, params);
+}
@@ -0,0 +1,249 @@
+import { MessageKey } from './en';
+
+// Counts are written as "label: N" so no plural forms are needed
+export const ru: Record<MessageKey, string> = {
+  // Access and invites
+  'access.restricted': '❌ Доступ запрещён. Бот доступен только авторизованным пользователям.',
+  'access.requestButton': '🙋 Запросить доступ',
+  'access.pending': '⏳ Ваш запрос на доступ ожидает одобрения администратора.',
+  'access.denied': '❌ Доступ запрещён.',
+  'access.adminsOnly': '❌ Эта команда доступна только администраторам.',
+  'access.alreadyAllowed': '✅ У вас уже есть доступ.',
+  'access.alreadyRequested': '⏳ Ваш запрос уже ожидает рассмотрения.',
+  'access.requestSent': '📨 Запрос отправлен.',
+  'access.requestSentToAdmins': '⏳ Ваш запрос на доступ отправлен администраторам.',
+  'access.requestFrom': '🙋 Запрос на доступ от {name} ({id})',
+  'access.approve': '✅ Одобрить',
+  'access.deny': '🚫 Отклонить',
+  'access.approved': '✅ Одобрено',
+  'access.declined': '🚫 Отклонено',
+  'access.decision': '{decision}: {name} ({id}), решение принял {admin}',
+  'access.alreadyHandled': 'ℹ️ Этот запрос уже рассмотрен.',
+  'access.approvedNotice': '🎉 Ваш запрос на доступ одобрен. Пришлите ссылку, чтобы начать.',
+  'access.declinedNotice': '🚫 Ваш запрос на доступ отклонён.',
+  'invite.accepted': '🎉 Приглашение принято.',
+  'invite.acceptedAdmin': '🎉 Приглашение принято. Теперь вы администратор.',
+  'invite.invalid': '⌛ Ссылка-приглашение недействительна или устарела.',
+  'invite.created': '🔗 Одноразовое приглашение ({role}), действует 7 дней:\n{link}',
+  'role.admin': 'администратор',
+  'role.user': 'пользователь',
+
+  // Commands
+  'start.welcome':
+    '👋 Привет! Пришлите ссылку из Instagram, TikTok, YouTube, Twitter или другой поддерживаемой платформы, и я скачаю видео.',
+  'clip.invalid': '❓ Не получается вырезать {range}: конец должен быть позже начала, например 1:20-2:05.',
+  'link.unsupported': '🚫 Ссылки на {domains} не поддерживаются.',
+  'message.noUrl': '❓ Пришлите корректную ссылку. Поддерживаются Instagram, TikTok, YouTube, Twitter и другие сайты.',
+  'usage.audio': '❓ Использование: /audio <ссылка> [{formats}]',
+  'usage.fit': '❓ Использование: /fit <{strategies}> <ссылка>',
+  'usage.playlist':
+    '❓ Использование: /playlist <ссылка> [диапазон], например 10 (первые десять), 5-8, -5 (последние пять) или 1,3,7',
+  'usage.subscribe':
+    '❓ Использование: /subscribe <ссылка на канал, аккаунт или плейлист> [max=<длительность>] [keyword=<слово>], например max=10:00 keyword=рецепт',
+  'usage.unsubscribe': '❓ Использование: /unsubscribe <id или ссылка>, id есть в /subscriptions',
+  'usage.uncache': '❓ Использование: /uncache <ссылка> или /uncache all',
+  'usage.allow': '❓ Использование: /allow <id пользователя> [admin]',
+  'usage.revoke': '❓ Использование: /revoke <id пользователя>',
+  'usage.cookies':
+    '❓ Использование: /cookies, /cookies delete <домен> или /cookies expire <домен> [дней]\nЧтобы добавить cookies, пришлите файл cookies.txt с подписью /cookies <домен>.',
+  'cache.disabled': 'ℹ️ Кэш загрузок отключён.',
+  'cache.cleared': '🗑 Кэш очищен (записей: {count}).',
+  'cache.removed': '🗑 Удалено записей из кэша: {count}.',
+  'cache.notCached': 'ℹ️ Для этой ссылки ничего не закэшировано.',
+  'users.allowed': '✅ Пользователь {id} получил доступ, роль: {role}.',
+  'users.envUser': 'ℹ️ Этот пользователь задан через переменные окружения, здесь его доступ отозвать нельзя.',
+  'users.revoked': '🚫 Доступ для {id} отозван.',
+  'users.noAccess': 'ℹ️ У этого пользователя нет доступа.',
+  'users.list': '👥 Пользователи:\n{users}',
+  'users.fromEnv': ' (env)',
+  'users.none': 'ℹ️ Пользователей пока нет.',
+  'group.trigger': 'ℹ️ Режим: {current}. Использование: /trigger <{triggers}>',
+  'group.triggerAuto': '✅ Буду скачивать каждую ссылку в этом чате.',
+  'group.triggerMention': '✅ Буду скачивать ссылки, только когда меня упомянут или ответят на моё сообщение.',
+  'group.deleteStatus': 'ℹ️ Удаление статусных сообщений: {current}. Использование: /deletestatus <on|off>',
+  'group.deleteStatusOn': '✅ Статусные сообщения будут удаляться после отправки.',
+  'group.deleteStatusOff': '✅ Статусные сообщения будут оставаться после отправки.',
+  'error.unexpected': '❌ Произошла ошибка. Попробуйте позже.',
+
+  // Cookies
+  'cookies.unavailable': 'ℹ️ Хранилище cookies недоступно.',
+  'cookies.privateOnly': '🔒 Cookies можно загружать только в личном чате с ботом.',
+  'cookies.invalidDomain': '❓ «{domain}» — некорректный домен, пример: instagram.com',
+  'cookies.stored': '🍪 Сохранено cookies для {domain}: {count}. Теперь они используются при скачивании с этого сайта.',
+  'cookies.alreadyExpired': '⚠️ Срок действия всех этих cookies уже истёк, сайт, скорее всего, всё равно попросит войти.',
+  'cookies.error.too_large': '❌ Файл слишком большой для cookies.txt.',
+  'cookies.error.empty': '❌ Cookies не найдены. Экспортируйте их в формате Netscape cookies.txt.',
+  'cookies.error.invalid_line': '❌ Строка {line} не соответствует формату Netscape cookies.txt.',
+  'cookies.error.no_domain_cookies': '❌ В файле нет cookies для этого домена.',
+  'cookies.list': '🍪 Сохранённые cookies:\n{entries}',
+  'cookies.none': 'ℹ️ Cookies не сохранены. Пришлите файл cookies.txt с подписью /cookies <домен>.',
+  'cookies.entry': '• {domain} — cookies: {count}, добавлены {date}',
+  'cookies.entryDisabled': '  ⌛ не используются с {date}',
+  'cookies.entryExpiresOn': '  ⏳ используются до {date}',
+  'cookies.entryCookiesExpired': '  ⚠️ срок действия самих cookies истёк {date}',
+  'cookies.entryStale': '  ⚠️ скачиваний подряд, потребовавших вход: {failures}, похоже, cookies устарели',
+  'cookies.deleted': '🗑 Cookies для {domain} удалены.',
+  'cookies.notFound': 'ℹ️ Для {domain} cookies не сохранены.',
+  'cookies.expired': '⌛ Cookies для {domain} больше не используются.',
+  'cookies.expiresOn': '⏳ Cookies для {domain} будут использоваться до {date}.',
+  'cookies.staleWarning':
+    '⚠️ Похоже, cookies для {domain} устарели: скачиваний подряд, потребовавших вход: {failures}. Загрузите свежие с подписью /cookies {domain}.',
+
+  // Preferences
+  'quality.unavailable': 'ℹ️ Настройки качества недоступны.',
+  'quality.set': '✅ Качество по умолчанию: {quality}.',
+  'quality.choose': '🎚 Выберите качество по умолчанию:',
+  'quality.ask': 'спрашивать каждый раз',
+  'quality.auto': 'авто (лучшее, что помещается)',
+  'language.unavailable': 'ℹ️ Настройки языка недоступны.',
+  'language.set': '✅ Язык: {language}.',
+  'language.choose': '🌐 Выберите язык:',
+  'language.auto': 'Автоматически (язык Telegram)',
+
+  // Usage and limits
+  'stats.unavailable': 'ℹ️ Статистика использования недоступна.',
+  'stats.title': '📊 Ваше использование',
+  'stats.today': 'Сегодня: {usage}',
+  'stats.month': 'В этом месяце: {usage}',
+  'stats.everyone': '🌍 Все пользователи за месяц',
+  'stats.global': '{usage}; пользователей: {users}, ошибок: {failureRate}%',
+  'stats.topSites': 'Популярные сайты:',
+  'stats.site': '• {domain}: задач: {jobs}, ошибок: {failureRate}%',
+  'stats.usage': 'загрузок: {count}, {size}',
+  'stats.usageFailed': 'загрузок: {count}, {size}, ошибок: {failed}',
+  'stats.sizeOfLimit': '{size} из {limit} MB',
+  'limit.quota': '🚫 Лимит использования: {reason}. Попробуйте позже.',
+  'limit.quotaShort': '🚫 Лимит использования: {reason}',
+  'limit.rate': '⏳ Слишком много запросов. Подождите {seconds} с.',
+  'quota.daily.count': 'достигнут дневной лимит загрузок ({limit})',
+  'quota.daily.mb': 'достигнут дневной лимит объёма ({limit} MB)',
+  'quota.monthly.count': 'достигнут месячный лимит загрузок ({limit})',
+  'quota.monthly.mb': 'достигнут месячный лимит объёма ({limit} MB)',
+
+  // Queue and progress
+  'queue.added': '⏳ Добавлено в очередь...',
+  'queue.addedItems': '⏳ Добавлено в очередь — элементов: {count}',
+  'queue.position': '⏳ В очереди — позиция {position}',
+  'queue.full': '⏳ У вас слишком много ссылок в очереди. Дождитесь, пока часть из них обработается.',
+  'job.cancelled': '✖️ Отменено',
+  'job.cancelButton': '✖️ Отмена',
+  'job.finished': 'Эта загрузка уже завершена.',
+  'job.notYoursToCancel': 'Отменить может только тот, кто прислал ссылку.',
+  'job.notYoursToChoose': 'Выбрать может только тот, кто прислал ссылку.',
+  'job.failedToProcess': '❌ Не удалось обработать: {error}',
+  'status.downloading': '🔄 Скачиваю...',
+  'status.extractingAudio': '🎵 Извлекаю аудио...',
+  'status.uploading': '📤 Отправляю...',
+  'status.uploadingAudio': '📤 Отправляю аудио...',
+  'status.doneWithAudio': '✅ Готово. Нужно только аудио?',
+  'progress.item': ' (элемент {index}/{count})',
+  'progress.processing': '⚙️ Склеиваю / перекодирую{item}...',
+  'progress.downloading': '🔄 Скачиваю{item}...',
+  'progress.extractingAudio': '🎵 Извлекаю аудио{item}...',
+  'progress.eta': 'осталось {eta}',
+  'audio.extracting': '🎵 Извлекаю {format}...',
+  'audio.buttonExpired': '⌛ Кнопка устарела. Пришлите ссылку ещё раз.',
+
+  // Quality picker
+  'picker.checking': '🔍 Проверяю доступные форматы...',
+  'picker.expired': '⌛ Выбор устарел. Пришлите ссылку ещё раз.',
+  'picker.choose': '🎚 Выберите качество:',
+  'picker.chooseFor': '🎚 Выберите качество для «{title}»:',
+  'picker.overLimit': '⚠️ = больше лимита загрузки {limit} MB',
+  'picker.auto': '✨ Авто',
+  'picker.audio': '🎵 Аудио',
+
+  // Playlists
+  'playlist.listing': '🔍 Получаю список...',
+  'playlist.empty': 'ℹ️ В этом диапазоне нечего скачивать.',
+  'playlist.untitled': 'Плейлист',
+  'playlist.items': 'Элементов: {count}',
+  'playlist.itemsWithSize': 'Элементов: {count}, примерно {size}',
+  'playlist.truncated': '⚠️ Из диапазона взяты только первые {max}.',
+  'playlist.confirm': 'Скачать?',
+  'playlist.download': '📥 Скачать',
+  'playlist.expired': '⌛ Подтверждение устарело. Отправьте команду ещё раз.',
+  'playlist.downloading': '📥 Скачиваю, элементов: {count}',
+  'playlist.stoppedAfterError': '❌ Плейлист остановлен из-за ошибки',
+  'playlist.summary': 'отправлено {sent}/{total}',
+  'playlist.summaryFailed': 'отправлено {sent}/{total}, ошибок: {failed}',
+  'playlist.stopped': '{reason} — {summary}',
+  'playlist.done': '✅ Плейлист готов — {summary}',
+
+  // Subscriptions
+  'subscriptions.unavailable': 'ℹ️ Подписки недоступны.',
+  'subscriptions.checking': '🔍 Проверяю канал...',
+  'subscriptions.notAChannel': '❓ Это ссылка на одну публикацию. Подпишитесь на канал, аккаунт или плейлист.',
+  'subscriptions.added': '📬 Подписка на {title} оформлена. Новые публикации проверяются каждые {minutes} мин. и приходят сюда.',
+  'subscriptions.limit': '⚠️ В этом чате уже {limit} подписок. Сначала удалите одну через /unsubscribe.',
+  'subscriptions.removed': '🗑 Подписка на {title} отменена.',
+  'subscriptions.notFound': 'ℹ️ В этом чате нет такой подписки, см. /subscriptions.',
+  'subscriptions.list': '📬 Подписки:\n{entries}',
+  'subscriptions.none': 'ℹ️ В этом чате нет подписок. Добавьте через /subscribe <ссылка>.',
+  'subscriptions.entry': '• {id} — {title}\n  {url}',
+  'subscriptions.filterDuration': '  ⏱ не длиннее {duration}',
+  'subscriptions.filterKeyword': '  🔎 названия со словом «{keyword}»',
+  'subscriptions.failing': '  ⚠️ последние проверки ({failures}) не удались: {error}',
+
+  // History
+  'history.unavailable': 'ℹ️ История недоступна.',
+  'history.list': '📚 Ваши загрузки ({total}), страница {page}/{pages}:\n{entries}',
+  'history.listMatching': '📚 Ваши загрузки по запросу «{query}» ({total}), страница {page}/{pages}:\n{entries}',
+  'history.entry': '{index}. {title} — {domain} · {date}',
+  'history.none': 'ℹ️ Загрузок пока нет. Всё, что бот вам отправит, появится здесь.',
+  'history.noMatches': 'ℹ️ Среди ваших загрузок нет подходящих под «{query}».',
+  'history.expired': '⌛ Этот список устарел. Отправьте /history ещё раз.',
+  'history.notYours': 'Пользоваться списком может только тот, кто его запросил.',
+  'history.gone': 'ℹ️ Этого больше нет в вашей истории.',
+  'history.sending': '📤 Отправляю...',
+  'history.sendFailed': '❌ Не удалось отправить повторно. Пришлите ссылку, чтобы скачать заново.',
+
+  // Sending
+  'send.failed': '❌ Не удалось отправить файл: {title}',
+  'caption.source': 'Источник',
+  'caption.part': '✂️ Часть {index}/{count}',
+  'caption.reencoded': '🗜 Перекодировано, чтобы уложиться в лимит загрузки {limit} MB',
+  'caption.split': '✂️ Разделено на части ({count}), чтобы уложиться в лимит загрузки',
+
+  // Inline mode; button texts are cut to 64 characters
+  'inline.accessRequired': '🔒 Нужен доступ — откройте бота',
+  'inline.notCached': '📥 Ещё не скачано — откройте бота',
+  'inline.downloading': '⏳ Скачиваю… введите ссылку ещё раз чуть позже',
+  'inline.failed': '❌ {error}',
+  'inline.queueFull': 'Слишком много ссылок в очереди',
+  'inline.nothingToSend': 'Нечего отправить',
+  'inline.uploadFailed': 'Не удалось загрузить',
+
+  // Download errors, by DownloadErrorCode
+  'download.failed': '❌ Ошибка: {error}',
+  'download.hint': '💡 {hint}',
+  'error.private': 'Это закрытый контент',
+  'error.login_required': 'Для доступа к этому контенту нужна авторизация',
+  'error.geo_restricted': 'Этот контент недоступен в вашем регионе',
+  'error.unavailable': 'Этот контент больше недоступен',
+  'error.unsupported': 'Эта ссылка не поддерживается',
+  'error.no_formats': 'Не найдено доступных для скачивания форматов',
+  'error.rate_limited': 'Сайт ограничивает частоту загрузок',
+  'error.server_error': 'Сайт вернул ошибку сервера',
+  'error.network': 'Сетевая ошибка при скачивании',
+  'error.extractor_outdated': 'Сайт изменился, загрузчик нужно обновить',
+  'error.timeout': 'Превышено время скачивания',
+  'error.too_large': 'Файл слишком большой',
+  'error.processing_failed': 'Не удалось обработать видео',
+  'error.no_media': 'После скачивания не найдено медиафайлов',
+  'error.spawn_failed': 'Не удалось запустить загрузчик',
+  'error.cancelled': 'Загрузка отменена',
+  'error.unknown': 'Не удалось скачать контент',
+  'hint.private':
+    'Его видят только владелец и одобренные подписчики. Попросите администратора добавить cookies аккаунта, у которого есть доступ.',
+  'hint.login_required': 'Сайт требует вход в аккаунт. Попросите администратора добавить cookies для этого сайта.',
+  'hint.geo_restricted': 'Контент заблокирован по региону и недоступен с сервера бота.',
+  'hint.unavailable': 'Возможно, его удалили или закрыли. Проверьте, открывается ли ссылка в браузере.',
+  'hint.unsupported': 'Пришлите ссылку на страницу отдельного видео или поста.',
+  'hint.rate_limited': 'Сайт ограничивает бота. Попробуйте через несколько минут.',
+  'hint.server_error': 'У сайта проблемы. Попробуйте позже.',
+  'hint.network': 'Не удалось подключиться к сайту. Попробуйте позже.',
+  'hint.extractor_outdated': 'Сайт изменил страницы, и yt-dlp нужно обновить. Сообщите администратору.',
+  'hint.timeout': 'Скачивание заняло слишком много времени. Попробуйте качество пониже или /audio.',
+  'hint.too_large': 'Боты Telegram не могут отправить такой большой файл.',
+};
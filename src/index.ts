@@ -1,12 +1,33 @@
 import 'dotenv/config';
-import { Bot } from './bot/bot';
+import { randomBytes } from 'crypto';
+import * as path from 'path';
+import { Bot, BotTransport } from './bot/bot';
+import { DEFAULT_CAPTION_TEMPLATE, findUnknownPlaceholders } from './bot/caption';
 import { AccessControl } from './services/access';
-import { Downloader } from './services/downloader';
+import { ArchiveBackend, LocalArchive, S3Archive } from './services/archive';
+import { BotApiBackend } from './services/botApi';
+import { MediaCache } from './services/cache';
+import { ChatSettingsStore, isGroupTrigger } from './services/chats';
+import { CookieStore } from './services/cookies';
+import { isFitStrategy } from './services/fitter';
+import { checkWritableDir, checkYtDlp, HealthChecker } from './services/health';
+import { HttpServer } from './services/http';
+import { MediaLibrary } from './services/library';
+import { LinkResolver } from './services/links';
+import { parseQualityPreference, UserPreferences } from './services/preferences';
+import { SiteProfiles } from './services/profiles';
+import { JobQueue } from './services/queue';
+import { RateLimiter } from './services/rateLimiter';
+import { SubscriptionStore } from './services/subscriptions';
+import { UsageLedger } from './services/usage';
+import { Downloader, isAudioFormat } from './services/downloader';
 import { logger } from './utils/logger';
-import { cleanupAllTempDirs } from './utils/temp';
+import { metrics } from './utils/metrics';
+import { DATA_DIR } from './utils/store';
+import { cleanupAllTempDirs, TEMP_BASE_DIR } from './utils/temp';
 
 function validateEnv(): void {
-  const required = ['TELEGRAM_TOKEN', 'ALLOWED_USER_IDS'];
+  const required = ['TELEGRAM_TOKEN'];
   const missing = required.filter((key) => !process.env[key]);
 
   if (missing.length > 0) {
@@ -25,29 +46,294 @@ async function main(): Promise<void> {
   await cleanupAllTempDirs();
 
   const telegramToken = process.env.TELEGRAM_TOKEN!;
-  const allowedUserIds = process.env.ALLOWED_USER_IDS!;
+  const allowedUserIds = process.env.ALLOWED_USER_IDS || '';
+  const adminUserIds = process.env.ADMIN_USER_IDS || '';
+  const allowedChatIds = process.env.ALLOWED_CHAT_IDS || '';
   const downloadTimeout = parseInt(process.env.DOWNLOAD_TIMEOUT || '120', 10);
-  const maxFileSizeMB = parseInt(process.env.MAX_FILE_SIZE_MB || '49', 10);
+  const downloadRetries = Math.max(parseInt(process.env.DOWNLOAD_RETRIES || '2', 10), 0);
+  const downloadRetryDelayMs = parseInt(process.env.DOWNLOAD_RETRY_DELAY_MS || '2000', 10);
+  const botApi = new BotApiBackend({
+    apiRoot: process.env.TELEGRAM_API_ROOT || undefined,
+    localMode: process.env.TELEGRAM_LOCAL_MODE === 'true',
+  });
+  // The size limit follows the backend; an explicit value can only lower it
+  const maxFileSizeCap = parseInt(process.env.MAX_FILE_SIZE_MB || '', 10);
+  const maxFileSizeMB =
+    maxFileSizeCap > 0 ? Math.min(maxFileSizeCap, botApi.defaultMaxFileSizeMB) : botApi.defaultMaxFileSizeMB;
+  if (process.env.MAX_FILE_SIZE_MB && !(maxFileSizeCap > 0)) {
+    logger.warn({ value: process.env.MAX_FILE_SIZE_MB }, 'MAX_FILE_SIZE_MB is not a positive number, using the backend limit');
+  }
+  const audioFormatEnv = (process.env.AUDIO_FORMAT || 'mp3').toLowerCase();
+  const audioFormat = isAudioFormat(audioFormatEnv) ? audioFormatEnv : 'mp3';
+  const fitStrategyEnv = (process.env.FIT_STRATEGY || 'reencode').toLowerCase();
+  const fitStrategy = isFitStrategy(fitStrategyEnv) || fitStrategyEnv === 'off' ? fitStrategyEnv : 'reencode';
+  const fitTimeout = parseInt(process.env.FIT_TIMEOUT || '900', 10);
+  const cacheEnabled = process.env.CACHE_ENABLED !== 'false';
+  const cacheTtlDays = parseInt(process.env.CACHE_TTL_DAYS || '30', 10);
+  const queueConcurrency = parseInt(process.env.QUEUE_CONCURRENCY || '2', 10);
+  const queueMaxPerUser = parseInt(process.env.QUEUE_MAX_PER_USER || '10', 10);
+  const groupTriggerEnv = (process.env.GROUP_TRIGGER || 'mention').toLowerCase();
+  const groupTrigger = isGroupTrigger(groupTriggerEnv) ? groupTriggerEnv : 'mention';
+  const groupDeleteStatus = process.env.GROUP_DELETE_STATUS !== 'false';
+  const defaultQuality = parseQualityPreference(process.env.DEFAULT_QUALITY || 'auto') ?? 'auto';
+  const rateLimitBurst = parseInt(process.env.RATE_LIMIT_BURST || '3', 10);
+  const rateLimitPerMinute = parseInt(process.env.RATE_LIMIT_PER_MINUTE || '6', 10);
+  const usageLimits = {
+    dailyCount: parseInt(process.env.QUOTA_DAILY_COUNT || '0', 10),
+    dailyMB: parseInt(process.env.QUOTA_DAILY_MB || '0', 10),
+    monthlyCount: parseInt(process.env.QUOTA_MONTHLY_COUNT || '0', 10),
+    monthlyMB: parseInt(process.env.QUOTA_MONTHLY_MB || '0', 10),
+  };
+  // Monthly limits need at least a month of history
+  const usageRetentionDays = Math.max(parseInt(process.env.USAGE_RETENTION_DAYS || '90', 10), 31);
+  const siteProfilesFile = process.env.SITE_PROFILES_FILE || undefined;
+  // Unset: the built-in list of sites; "*" allows any site yt-dlp may handle
+  const supportedDomains = process.env.SUPPORTED_DOMAINS
+    ? process.env.SUPPORTED_DOMAINS.split(',').map((domain) => domain.trim()).filter(Boolean)
+    : undefined;
+  const playlistMaxItems = parseInt(process.env.PLAYLIST_MAX_ITEMS || '25', 10);
+  // Every check lists each subscribed channel; more often than this mostly gets the bot rate-limited
+  const subscriptionCheckMinutes = Math.max(parseInt(process.env.SUBSCRIPTION_CHECK_MINUTES || '30', 10), 5);
+  const subscriptionsMaxPerChat = parseInt(process.env.SUBSCRIPTIONS_MAX_PER_CHAT || '10', 10);
+  const historyMaxPerUser = parseInt(process.env.HISTORY_MAX_PER_USER || '500', 10);
+  const archiveBackend = (process.env.ARCHIVE_BACKEND || 'off').toLowerCase();
+  const archiveDir = process.env.ARCHIVE_DIR || path.join(DATA_DIR, 'archive');
+  const archiveS3 = {
+    endpoint: process.env.ARCHIVE_S3_ENDPOINT || '',
+    bucket: process.env.ARCHIVE_S3_BUCKET || '',
+    region: process.env.ARCHIVE_S3_REGION || 'us-east-1',
+    accessKeyId: process.env.ARCHIVE_S3_ACCESS_KEY_ID || '',
+    secretAccessKey: process.env.ARCHIVE_S3_SECRET_ACCESS_KEY || '',
+    // MinIO and most self-hosted stores don't serve buckets as subdomains
+    pathStyle: process.env.ARCHIVE_S3_PATH_STYLE !== 'false',
+  };
+  // Environment files can't hold line breaks, so "\n" stands for one
+  const captionTemplate = process.env.CAPTION_TEMPLATE?.replace(/\\n/g, '\n') || DEFAULT_CAPTION_TEMPLATE;
+  const unknownPlaceholders = findUnknownPlaceholders(captionTemplate);
+  if (unknownPlaceholders.length > 0) {
+    logger.warn({ unknownPlaceholders }, 'CAPTION_TEMPLATE has placeholders that are left as they are');
+  }
+  const httpPort = parseInt(process.env.HTTP_PORT || '8080', 10);
+  const transportType = (process.env.BOT_TRANSPORT || 'polling').toLowerCase();
+  const webhookUrl = process.env.WEBHOOK_URL || '';
+  const webhookPath = process.env.WEBHOOK_PATH || '/telegram/webhook';
+  // 0 serves the webhook from the HTTP_PORT server
+  const webhookPort = parseInt(process.env.WEBHOOK_PORT || '0', 10);
+  // Re-registered on every start, so a random token works unless several replicas share the webhook
+  const webhookSecretToken = process.env.WEBHOOK_SECRET_TOKEN || randomBytes(32).toString('hex');
+
+  if (transportType !== 'polling' && transportType !== 'webhook') {
+    logger.error({ transportType }, 'BOT_TRANSPORT must be "polling" or "webhook"');
+    process.exit(1);
+  }
+  if (transportType === 'webhook') {
+    if (!webhookUrl) {
+      logger.error('WEBHOOK_URL is required when BOT_TRANSPORT=webhook');
+      process.exit(1);
+    }
+    if (webhookPort <= 0 && httpPort <= 0) {
+      logger.error('Webhook mode needs WEBHOOK_PORT or HTTP_PORT to listen on');
+      process.exit(1);
+    }
+    if (!/^[\w-]{1,256}$/.test(webhookSecretToken)) {
+      logger.error('WEBHOOK_SECRET_TOKEN may only contain A-Z, a-z, 0-9, _ and - (up to 256 characters)');
+      process.exit(1);
+    }
+  }
+  if (archiveBackend !== 'off' && archiveBackend !== 'local' && archiveBackend !== 's3') {
+    logger.error({ archiveBackend }, 'ARCHIVE_BACKEND must be "off", "local" or "s3"');
+    process.exit(1);
+  }
+  if (archiveBackend === 's3') {
+    const missing = (['endpoint', 'bucket', 'accessKeyId', 'secretAccessKey'] as const).filter((key) => !archiveS3[key]);
+    if (missing.length > 0) {
+      logger.error({ missing }, 'ARCHIVE_BACKEND=s3 needs ARCHIVE_S3_ENDPOINT, _BUCKET, _ACCESS_KEY_ID and _SECRET_ACCESS_KEY');
+      process.exit(1);
+    }
+  }
+  const inlineCacheChatId = process.env.INLINE_CACHE_CHAT_ID ? parseInt(process.env.INLINE_CACHE_CHAT_ID, 10) : undefined;
 
   logger.info(
     {
       downloadTimeout,
+      downloadRetries,
+      downloadRetryDelayMs,
       maxFileSizeMB,
+      audioFormat,
+      fitStrategy,
+      fitTimeout,
+      cacheEnabled,
+      cacheTtlDays,
+      queueConcurrency,
+      queueMaxPerUser,
+      defaultQuality,
+      rateLimitBurst,
+      rateLimitPerMinute,
+      usageLimits,
+      usageRetentionDays,
+      inlineCacheChatId,
+      playlistMaxItems,
+      subscriptionCheckMinutes,
+      subscriptionsMaxPerChat,
+      historyMaxPerUser,
+      archiveBackend,
+      archiveDir: archiveBackend === 'local' ? archiveDir : undefined,
+      archiveS3: archiveBackend === 's3'
+        ? { endpoint: archiveS3.endpoint, bucket: archiveS3.bucket, region: archiveS3.region, pathStyle: archiveS3.pathStyle }
+        : undefined,
+      captionTemplate,
+      siteProfilesFile,
+      supportedDomains: supportedDomains ?? 'built-in',
+      httpPort,
+      transportType,
+      webhookUrl: transportType === 'webhook' ? webhookUrl : undefined,
+      webhookPath: transportType === 'webhook' ? webhookPath : undefined,
+      webhookPort: transportType === 'webhook' ? webhookPort : undefined,
+      groupTrigger,
+      groupDeleteStatus,
       logLevel: process.env.LOG_LEVEL || 'info',
     },
     'Configuration loaded'
   );
 
-  const accessControl = new AccessControl(allowedUserIds);
+  const accessControl = new AccessControl(allowedUserIds, adminUserIds, allowedChatIds);
+  await accessControl.init();
+  // Admins alone are enough: they let everyone else in from the chat
+  if (accessControl.listUsers().length === 0) {
+    logger.error('Nobody could use the bot: set ADMIN_USER_IDS or ALLOWED_USER_IDS');
+    process.exit(1);
+  }
+  const profiles = new SiteProfiles({ filePath: siteProfilesFile });
+  await profiles.init();
+  const cookieStore = new CookieStore({ dir: path.join(DATA_DIR, 'cookies'), fileName: 'cookies.json' });
+  await cookieStore.init();
+
   const downloader = new Downloader({
     downloadTimeout,
     maxFileSizeMB,
+    audioFormat,
+    fitStrategy,
+    fitTimeout,
+    retries: downloadRetries,
+    retryBaseDelayMs: downloadRetryDelayMs,
+    profiles,
+    cookies: cookieStore,
   });
 
-  const bot = new Bot(telegramToken, accessControl, downloader, maxFileSizeMB);
+  const linkResolver = new LinkResolver({ supportedDomains });
+
+  let mediaCache: MediaCache | undefined;
+  if (cacheEnabled) {
+    mediaCache = new MediaCache({ fileName: 'cache.json', ttlDays: cacheTtlDays });
+    await mediaCache.init();
+  }
+
+  const jobQueue = new JobQueue({
+    concurrency: queueConcurrency,
+    maxPendingPerUser: queueMaxPerUser,
+  });
+
+  const preferences = new UserPreferences({ fileName: 'preferences.json', defaultQuality });
+  await preferences.init();
+
+  const chatSettings = new ChatSettingsStore({
+    fileName: 'chats.json',
+    defaults: { trigger: groupTrigger, deleteStatus: groupDeleteStatus },
+  });
+  await chatSettings.init();
+
+  const rateLimiter = new RateLimiter({ burst: rateLimitBurst, perMinute: rateLimitPerMinute });
+
+  const usageLedger = new UsageLedger({
+    fileName: 'usage.json',
+    retentionDays: usageRetentionDays,
+    limits: usageLimits,
+  });
+  await usageLedger.init();
+
+  const subscriptions = new SubscriptionStore({ fileName: 'subscriptions.json', maxPerChat: subscriptionsMaxPerChat });
+  await subscriptions.init();
+
+  let archive: ArchiveBackend | undefined;
+  if (archiveBackend === 'local') {
+    archive = new LocalArchive(archiveDir);
+  } else if (archiveBackend === 's3') {
+    archive = new S3Archive(archiveS3);
+  }
+  const library = new MediaLibrary({ fileName: 'library.json', archive, maxItemsPerUser: historyMaxPerUser });
+  await library.init();
+
+  const bot = new Bot(telegramToken, accessControl, downloader, maxFileSizeMB, {
+    botApi,
+    mediaCache,
+    jobQueue,
+    preferences,
+    chatSettings,
+    rateLimiter,
+    usageLedger,
+    cookieStore,
+    linkResolver,
+    subscriptions,
+    subscriptionCheckMinutes,
+    library,
+    inlineCacheChatId,
+    playlistMaxItems,
+    captionTemplate,
+  });
+
+  const servers: HttpServer[] = [];
+
+  // Probes and metrics; HTTP_PORT=0 turns the server off
+  let httpServer: HttpServer | undefined;
+  if (httpPort > 0) {
+    const health = new HealthChecker({
+      checks: {
+        telegram: () => bot.checkConnection(),
+        ytDlp: checkYtDlp,
+        tempDir: () => checkWritableDir(TEMP_BASE_DIR),
+      },
+      cacheMs: 15_000,
+    });
+
+    httpServer = new HttpServer({ port: httpPort });
+    httpServer.route('/healthz', async (_req, res) => {
+      const report = await health.run();
+      res.writeHead(report.ok ? 200 : 503, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(report));
+    });
+    httpServer.route('/metrics', (_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4' });
+      res.end(metrics.render());
+    });
+    servers.push(httpServer);
+  }
+
+  let transport: BotTransport = { type: 'polling' };
+  if (transportType === 'webhook') {
+    let webhookServer = httpServer;
+    if (!webhookServer || (webhookPort > 0 && webhookPort !== httpPort)) {
+      webhookServer = new HttpServer({ port: webhookPort });
+      servers.push(webhookServer);
+    }
+    transport = { type: 'webhook', url: webhookUrl, path: webhookPath, secretToken: webhookSecretToken, server: webhookServer };
+  }
+
+  for (const server of servers) {
+    await server.listen();
+  }
+
+  // Graceful shutdown
+  const shutdown = async (signal: string) => {
+    logger.info({ signal }, 'Shutting down');
+    await bot.stop().catch((error) => logger.warn({ error }, 'Failed to stop bot'));
+    await Promise.all(servers.map((server) => server.close()));
+    process.exit(0);
+  };
+  process.once('SIGINT', () => void shutdown('SIGINT'));
+  process.once('SIGTERM', () => void shutdown('SIGTERM'));
 
   try {
-    await bot.launch();
+    await bot.launch(transport);
   } catch (error) {
     logger.error({ error }, 'Failed to launch bot');
     process.exit(1);
@@ -1,25 +1,198 @@
+import { randomBytes } from 'crypto';
 import { logger } from '../utils/logger';
+import { JsonStore } from '../utils/store';
+
+export type UserRole = 'admin' | 'user';
+
+export interface UserRecord {
+  id: number;
+  role: UserRole;
+  // 'env' users come from ALLOWED_USER_IDS / ADMIN_USER_IDS and can't be revoked at runtime
+  source: 'env' | 'store';
+  addedBy?: number;
+  addedAt?: number;
+  name?: string;
+}
+
+export interface AccessRequest {
+  userId: number;
+  name: string;
+  username?: string;
+  // Telegram language_code, so the answer reaches them in their language
+  languageCode?: string;
+  requestedAt: number;
+}
+
+interface Invite {
+  role: UserRole;
+  createdBy: number;
+  expiresAt: number;
+}
+
+interface AccessData {
+  users: Record<string, Omit<UserRecord, 'id' | 'source'>>;
+  invites: Record<string, Invite>;
+  requests: Record<string, AccessRequest>;
+}
+
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+function parseIds(idsEnv: string): Set<number> {
+  return new Set(
+    idsEnv
+      .split(',')
+      .map((id) => parseInt(id.trim(), 10))
+      .filter((id) => !isNaN(id))
+  );
+}
 
 class AccessControl {
   private allowedUserIds: Set<number>;
+  private adminUserIds: Set<number>;
+  private allowedChatIds: Set<number>;
+  private store: JsonStore<AccessData>;
 
-  constructor(allowedUserIdsEnv: string) {
-    this.allowedUserIds = new Set(
-      allowedUserIdsEnv
-        .split(',')
-        .map((id) => parseInt(id.trim(), 10))
-        .filter((id) => !isNaN(id))
-    );
+  constructor(allowedUserIdsEnv: string, adminUserIdsEnv = '', allowedChatIdsEnv = '', fileName = 'users.json') {
+    this.allowedUserIds = parseIds(allowedUserIdsEnv);
+    this.allowedChatIds = parseIds(allowedChatIdsEnv);
+    // Admins are only ever the ones listed explicitly (or promoted with /allow)
+    this.adminUserIds = parseIds(adminUserIdsEnv);
+    this.store = new JsonStore<AccessData>(fileName, () => ({ users: {}, invites: {}, requests: {} }));
+  }
+
+  async init(): Promise<void> {
+    await this.store.load();
 
-    logger.info({ allowedUserIds: Array.from(this.allowedUserIds) }, 'Access control initialized');
+    logger.info(
+      {
+        allowedUserIds: Array.from(this.allowedUserIds),
+        adminUserIds: Array.from(this.adminUserIds),
+        allowedChatIds: Array.from(this.allowedChatIds),
+        storedUsers: Object.keys(this.store.data.users).length,
+      },
+      'Access control initialized'
+    );
+    if (this.getAdminUserIds().length === 0) {
+      logger.warn('No admins configured: set ADMIN_USER_IDS to use admin commands, invites and access requests');
+    }
   }
 
   isAllowed(userId: number): boolean {
-    return this.allowedUserIds.has(userId);
+    return this.getRole(userId) !== undefined;
+  }
+
+  /** Group chats the bot may work in. Private chats are governed by the user lists. */
+  isChatAllowed(chatId: number): boolean {
+    return this.allowedChatIds.has(chatId);
+  }
+
+  isAdmin(userId: number): boolean {
+    return this.getRole(userId) === 'admin';
+  }
+
+  getRole(userId: number): UserRole | undefined {
+    if (this.adminUserIds.has(userId)) {
+      return 'admin';
+    }
+    if (this.allowedUserIds.has(userId)) {
+      return 'user';
+    }
+    return this.store.data.users[userId]?.role;
   }
 
   getAllowedUserIds(): number[] {
-    return Array.from(this.allowedUserIds);
+    return this.listUsers().map((user) => user.id);
+  }
+
+  getAdminUserIds(): number[] {
+    return this.listUsers()
+      .filter((user) => user.role === 'admin')
+      .map((user) => user.id);
+  }
+
+  listUsers(): UserRecord[] {
+    const users = new Map<number, UserRecord>();
+
+    for (const [id, record] of Object.entries(this.store.data.users)) {
+      users.set(Number(id), { ...record, id: Number(id), source: 'store' });
+    }
+    for (const id of new Set([...this.allowedUserIds, ...this.adminUserIds])) {
+      users.set(id, { id, role: this.getRole(id)!, source: 'env' });
+    }
+
+    return [...users.values()].sort((a, b) => a.id - b.id);
+  }
+
+  async allow(userId: number, role: UserRole, addedBy: number, name?: string): Promise<void> {
+    this.store.data.users[userId] = { role, addedBy, addedAt: Date.now(), name };
+    delete this.store.data.requests[userId];
+    await this.store.save();
+    logger.info({ userId, role, addedBy }, 'User allowed');
+  }
+
+  /**
+   * Removes a stored user. Returns false for users that come from the
+   * environment (or don't exist), since those can't be revoked at runtime.
+   */
+  async revoke(userId: number): Promise<boolean> {
+    if (!this.store.data.users[userId]) {
+      return false;
+    }
+
+    delete this.store.data.users[userId];
+    await this.store.save();
+    logger.info({ userId }, 'User revoked');
+    return true;
+  }
+
+  isEnvUser(userId: number): boolean {
+    return this.allowedUserIds.has(userId) || this.adminUserIds.has(userId);
+  }
+
+  /** Creates a one-time invite token for /start <token>. */
+  async createInvite(role: UserRole, createdBy: number): Promise<string> {
+    this.pruneInvites();
+
+    const token = randomBytes(12).toString('base64url');
+    this.store.data.invites[token] = { role, createdBy, expiresAt: Date.now() + INVITE_TTL_MS };
+    await this.store.save();
+    return token;
+  }
+
+  /** Enrolls the user with the invite's role and burns the token. */
+  async redeemInvite(token: string, userId: number, name?: string): Promise<UserRole | undefined> {
+    const invite = this.store.data.invites[token];
+    if (!invite || invite.expiresAt < Date.now()) {
+      return undefined;
+    }
+
+    delete this.store.data.invites[token];
+    // Never downgrade someone who already has access
+    const role = this.getRole(userId) === 'admin' ? 'admin' : invite.role;
+    await this.allow(userId, role, invite.createdBy, name);
+    return role;
+  }
+
+  getAccessRequest(userId: number): AccessRequest | undefined {
+    return this.store.data.requests[userId];
+  }
+
+  async addAccessRequest(request: AccessRequest): Promise<void> {
+    this.store.data.requests[request.userId] = request;
+    await this.store.save();
+  }
+
+  async removeAccessRequest(userId: number): Promise<void> {
+    delete this.store.data.requests[userId];
+    await this.store.save();
+  }
+
+  private pruneInvites(): void {
+    for (const [token, invite] of Object.entries(this.store.data.invites)) {
+      if (invite.expiresAt < Date.now()) {
+        delete this.store.data.invites[token];
+      }
+    }
   }
 }
 
@@ -0,0 +1,217 @@
+import { createHash, createHmac } from 'crypto';
+import * as http from 'http';
+import * as https from 'https';
+import * as path from 'path';
+import { pipeline, Readable } from 'stream';
+import * as fs from 'fs-extra';
+
+/** Where archived downloads are kept; keys are "/"-separated relative paths. */
+export interface ArchiveBackend {
+  // For logs, e.g. "s3://bucket"
+  readonly location: string;
+  putFile(key: string, filePath: string): Promise<void>;
+  putJson(key: string, value: unknown): Promise<void>;
+}
+
+export interface S3ArchiveConfig {
+  // e.g. https://s3.eu-central-1.amazonaws.com or http://localhost:9000 for MinIO
+  endpoint: string;
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  // http://endpoint/bucket/key instead of http://bucket.endpoint/key; MinIO needs it
+  pathStyle: boolean;
+}
+
+export interface SignableRequest {
+  method: string;
+  url: URL;
+  // Lower-case names; all of them are signed
+  headers: Record<string, string>;
+  payloadHash: string;
+}
+
+// S3 accepts uploads whose body isn't hashed up front when signing over TLS or to MinIO
+const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+const UPLOAD_TIMEOUT_MS = 10 * 60 * 1000;
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.mkv': 'video/x-matroska',
+  '.mp3': 'audio/mpeg',
+  '.m4a': 'audio/mp4',
+  '.opus': 'audio/ogg',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.json': 'application/json',
+};
+
+function contentTypeOf(filePath: string): string {
+  return CONTENT_TYPES[path.extname(filePath).toLowerCase()] ?? 'application/octet-stream';
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+/** RFC 3986 encoding, which is what AWS signs; "/" is kept between key segments. */
+function encodeKey(key: string): string {
+  return key
+    .split('/')
+    .map((segment) => encodeURIComponent(segment).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`))
+    .join('/');
+}
+
+/**
+ * Adds an AWS Signature Version 4 Authorization header to a request, as S3
+ * and S3-compatible stores like MinIO expect. `headers` must include host
+ * and x-amz-date.
+ */
+export function signRequest(
+  request: SignableRequest,
+  credentials: Pick<S3ArchiveConfig, 'region' | 'accessKeyId' | 'secretAccessKey'>
+): string {
+  const amzDate = request.headers['x-amz-date'];
+  const date = amzDate.slice(0, 8);
+  const scope = `${date}/${credentials.region}/s3/aws4_request`;
+
+  const names = Object.keys(request.headers).sort();
+  const canonicalHeaders = names.map((name) => `${name}:${request.headers[name].trim()}\n`).join('');
+  const signedHeaders = names.join(';');
+  const canonicalQuery = [...request.url.searchParams.entries()]
+    .map(([name, value]) => `${encodeURIComponent(name)}=${encodeURIComponent(value)}`)
+    .sort()
+    .join('&');
+  const canonicalRequest = [
+    request.method,
+    request.url.pathname,
+    canonicalQuery,
+    canonicalHeaders,
+    signedHeaders,
+    request.payloadHash,
+  ].join('\n');
+
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+  const signingKey = ['s3', 'aws4_request'].reduce(
+    (key, part) => hmac(key, part),
+    hmac(hmac(`AWS4${credentials.secretAccessKey}`, date), credentials.region)
+  );
+  const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  return `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`;
+}
+
+/** Copies downloads into a directory, e.g. a mounted volume or network share. */
+export class LocalArchive implements ArchiveBackend {
+  readonly location: string;
+
+  constructor(dir: string) {
+    this.location = path.resolve(dir);
+  }
+
+  async putFile(key: string, filePath: string): Promise<void> {
+    await fs.copy(filePath, this.resolve(key));
+  }
+
+  async putJson(key: string, value: unknown): Promise<void> {
+    const target = this.resolve(key);
+    await fs.ensureDir(path.dirname(target));
+    await fs.writeJson(target, value, { spaces: 2 });
+  }
+
+  private resolve(key: string): string {
+    const target = path.resolve(this.location, key);
+    if (!target.startsWith(`${this.location}${path.sep}`)) {
+      throw new Error(`Archive key escapes the archive directory: ${key}`);
+    }
+    return target;
+  }
+}
+
+/** Uploads downloads to an S3 bucket or an S3-compatible store such as MinIO. */
+export class S3Archive implements ArchiveBackend {
+  readonly location: string;
+  private config: S3ArchiveConfig;
+
+  constructor(config: S3ArchiveConfig) {
+    this.config = config;
+    this.location = `s3://${config.bucket}`;
+  }
+
+  async putFile(key: string, filePath: string): Promise<void> {
+    const { size } = await fs.stat(filePath);
+    await this.put(key, contentTypeOf(filePath), size, fs.createReadStream(filePath));
+  }
+
+  async putJson(key: string, value: unknown): Promise<void> {
+    const body = Buffer.from(JSON.stringify(value, null, 2));
+    await this.put(key, 'application/json', body.length, body);
+  }
+
+  private objectUrl(key: string): URL {
+    const endpoint = new URL(this.config.endpoint);
+    const base = endpoint.pathname.replace(/\/+$/, '');
+    if (this.config.pathStyle) {
+      return new URL(`${endpoint.protocol}//${endpoint.host}${base}/${this.config.bucket}/${encodeKey(key)}`);
+    }
+    return new URL(`${endpoint.protocol}//${this.config.bucket}.${endpoint.host}${base}/${encodeKey(key)}`);
+  }
+
+  private put(
+    key: string,
+    contentType: string,
+    contentLength: number,
+    body: Buffer | Readable
+  ): Promise<void> {
+    const url = this.objectUrl(key);
+    const headers: Record<string, string> = {
+      host: url.host,
+      'content-type': contentType,
+      'content-length': String(contentLength),
+      'x-amz-content-sha256': UNSIGNED_PAYLOAD,
+      'x-amz-date': new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, ''),
+    };
+    headers.authorization = signRequest({ method: 'PUT', url, headers, payloadHash: UNSIGNED_PAYLOAD }, this.config);
+
+    return new Promise((resolve, reject) => {
+      const client = url.protocol === 'https:' ? https : http;
+      const request = client.request(url, { method: 'PUT', headers, timeout: UPLOAD_TIMEOUT_MS }, (response) => {
+        const chunks: Buffer[] = [];
+        response.on('data', (chunk: Buffer) => chunks.push(chunk));
+        response.on('end', () => {
+          const status = response.statusCode ?? 0;
+          if (status >= 200 && status < 300) {
+            resolve();
+            return;
+          }
+          // S3 explains errors in a small XML document
+          const message = Buffer.concat(chunks).toString('utf8').match(/<Message>([^<]*)<\/Message>/)?.[1];
+          reject(new Error(`S3 upload of ${key} failed with HTTP ${status}${message ? `: ${message}` : ''}`));
+        });
+        response.on('error', reject);
+      });
+      request.on('timeout', () => request.destroy(new Error(`S3 upload of ${key} timed out`)));
+      request.on('error', reject);
+
+      if (Buffer.isBuffer(body)) {
+        request.end(body);
+        return;
+      }
+      // A file that is gone or unreadable fails the upload instead of the process
+      pipeline(body, request, (error) => {
+        if (error) {
+          request.destroy(error);
+          reject(error);
+        }
+      });
+    });
+  }
+}
@@ -0,0 +1,82 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { Telegram } from 'telegraf';
+import { logger } from '../utils/logger';
+
+// Upload limits of the Bot API backends, in MB
+const PUBLIC_UPLOAD_LIMIT_MB = 50;
+const LOCAL_UPLOAD_LIMIT_MB = 2000;
+
+export interface BotApiConfig {
+  // Root URL of a self-hosted telegram-bot-api server; unset means api.telegram.org
+  apiRoot?: string;
+  // The self-hosted server runs with --local and can read files straight from disk
+  localMode: boolean;
+}
+
+export type InputFileRef = string | { source: string };
+
+/**
+ * Describes the Bot API server the bot talks to: where it is, how files
+ * reach it and how large they may be.
+ */
+export class BotApiBackend {
+  private config: BotApiConfig;
+
+  constructor(config: BotApiConfig) {
+    this.config = config;
+
+    if (config.localMode && !config.apiRoot) {
+      logger.warn('TELEGRAM_LOCAL_MODE needs TELEGRAM_API_ROOT; using the public Bot API');
+    }
+
+    logger.info(
+      { apiRoot: this.config.apiRoot || 'https://api.telegram.org', localMode: this.isLocal, uploadLimitMB: this.uploadLimitMB },
+      'Bot API backend configured'
+    );
+  }
+
+  get isLocal(): boolean {
+    return Boolean(this.config.apiRoot) && this.config.localMode;
+  }
+
+  get apiRoot(): string | undefined {
+    return this.config.apiRoot;
+  }
+
+  /** Largest upload the backend accepts. */
+  get uploadLimitMB(): number {
+    return this.isLocal ? LOCAL_UPLOAD_LIMIT_MB : PUBLIC_UPLOAD_LIMIT_MB;
+  }
+
+  /** Default MAX_FILE_SIZE_MB, one MB below the upload limit as a safety margin. */
+  get defaultMaxFileSizeMB(): number {
+    return this.uploadLimitMB - 1;
+  }
+
+  /**
+   * In local mode the server reads the file from its own disk, so the bot
+   * passes a file:// URI instead of uploading. The temp directory has to be
+   * mounted at the same path in both containers.
+   */
+  toInputFile(filePath: string): InputFileRef {
+    return this.isLocal ? `file://${path.resolve(filePath)}` : { source: filePath };
+  }
+
+  /**
+   * Reads a file a user sent to the bot. A local server answers getFile with
+   * a path on its own disk, which needs the same shared mount as uploads.
+   */
+  async downloadFile(telegram: Telegram, fileId: string): Promise<Buffer> {
+    const file = await telegram.getFile(fileId);
+    if (this.isLocal && file.file_path && path.isAbsolute(file.file_path)) {
+      return fs.readFile(file.file_path);
+    }
+
+    const response = await fetch(await telegram.getFileLink(file));
+    if (!response.ok) {
+      throw new Error(`File download failed with HTTP ${response.status}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+}
@@ -0,0 +1,119 @@
+import { ClipRange } from '../utils/clip';
+import { logger } from '../utils/logger';
+import { JsonStore } from '../utils/store';
+import { mediaKey, normalizeUrl } from '../utils/url';
+import { MediaMetadata } from './downloader';
+
+export type CachedMediaType = 'video' | 'document' | 'audio' | 'photo';
+
+export interface CachedMedia {
+  type: CachedMediaType;
+  fileId: string;
+}
+
+export interface CacheEntry {
+  url: string;
+  variant: string;
+  media: CachedMedia[];
+  title?: string;
+  performer?: string;
+  duration?: number;
+  metadata?: MediaMetadata;
+  clip?: ClipRange;
+  createdAt: number;
+}
+
+export interface MediaCacheConfig {
+  fileName: string;
+  ttlDays: number;
+}
+
+interface CacheData {
+  entries: Record<string, CacheEntry>;
+}
+
+/**
+ * Remembers the Telegram file_ids of media already uploaded for a URL,
+ * so repeat requests are answered without downloading again.
+ */
+export class MediaCache {
+  private config: MediaCacheConfig;
+  private store: JsonStore<CacheData>;
+
+  constructor(config: MediaCacheConfig) {
+    this.config = config;
+    this.store = new JsonStore<CacheData>(config.fileName, () => ({ entries: {} }));
+  }
+
+  async init(): Promise<void> {
+    await this.store.load();
+    logger.info(
+      { entries: Object.keys(this.store.data.entries).length, ttlDays: this.config.ttlDays },
+      'Media cache initialized'
+    );
+  }
+
+  get(url: string, variant: string): CacheEntry | undefined {
+    const key = this.buildKey(url, variant);
+    const entry = this.store.data.entries[key];
+
+    if (!entry) {
+      return undefined;
+    }
+
+    if (this.isExpired(entry)) {
+      delete this.store.data.entries[key];
+      void this.store.save();
+      return undefined;
+    }
+
+    return entry;
+  }
+
+  async set(url: string, variant: string, entry: Omit<CacheEntry, 'url' | 'variant' | 'createdAt'>): Promise<void> {
+    if (entry.media.length === 0) {
+      return;
+    }
+
+    this.store.data.entries[this.buildKey(url, variant)] = {
+      ...entry,
+      url: normalizeUrl(url),
+      variant,
+      createdAt: Date.now(),
+    };
+    await this.store.save();
+  }
+
+  /** Removes every variant cached for the media behind the URL. Returns the number of removed entries. */
+  async invalidate(url: string): Promise<number> {
+    const target = mediaKey(url);
+    const keys = Object.keys(this.store.data.entries).filter(
+      (key) => mediaKey(this.store.data.entries[key].url) === target
+    );
+
+    for (const key of keys) {
+      delete this.store.data.entries[key];
+    }
+
+    if (keys.length > 0) {
+      await this.store.save();
+    }
+    return keys.length;
+  }
+
+  async clear(): Promise<number> {
+    const count = Object.keys(this.store.data.entries).length;
+    this.store.data.entries = {};
+    await this.store.save();
+    return count;
+  }
+
+  private buildKey(url: string, variant: string): string {
+    // Every form of a link to the same post shares the entry
+    return `${variant}|${mediaKey(url)}`;
+  }
+
+  private isExpired(entry: CacheEntry): boolean {
+    return this.config.ttlDays > 0 && Date.now() - entry.createdAt > this.config.ttlDays * 24 * 60 * 60 * 1000;
+  }
+}
@@ -0,0 +1,58 @@
+import { logger } from '../utils/logger';
+import { JsonStore } from '../utils/store';
+
+// 'auto' reacts to every link, 'mention' only when the bot is mentioned or replied to
+export type GroupTrigger = 'auto' | 'mention';
+
+export const GROUP_TRIGGERS: GroupTrigger[] = ['auto', 'mention'];
+
+export interface ChatSettings {
+  trigger: GroupTrigger;
+  // Delete the status message once the media has been sent
+  deleteStatus: boolean;
+}
+
+export interface ChatSettingsStoreConfig {
+  fileName: string;
+  defaults: ChatSettings;
+}
+
+interface ChatsData {
+  chats: Record<string, Partial<ChatSettings>>;
+}
+
+export function isGroupTrigger(value: string): value is GroupTrigger {
+  return (GROUP_TRIGGERS as string[]).includes(value);
+}
+
+/**
+ * Per-group behaviour, falling back to the configured defaults for groups
+ * nobody has changed yet.
+ */
+export class ChatSettingsStore {
+  private config: ChatSettingsStoreConfig;
+  private store: JsonStore<ChatsData>;
+
+  constructor(config: ChatSettingsStoreConfig) {
+    this.config = config;
+    this.store = new JsonStore<ChatsData>(config.fileName, () => ({ chats: {} }));
+  }
+
+  async init(): Promise<void> {
+    await this.store.load();
+    logger.info(
+      { chats: Object.keys(this.store.data.chats).length, defaults: this.config.defaults },
+      'Chat settings loaded'
+    );
+  }
+
+  get(chatId: number): ChatSettings {
+    return { ...this.config.defaults, ...this.store.data.chats[chatId] };
+  }
+
+  async update(chatId: number, changes: Partial<ChatSettings>): Promise<ChatSettings> {
+    this.store.data.chats[chatId] = { ...this.store.data.chats[chatId], ...changes };
+    await this.store.save();
+    return this.get(chatId);
+  }
+}
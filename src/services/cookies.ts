@@ -0,0 +1,245 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { logger } from '../utils/logger';
+import { JsonStore } from '../utils/store';
+
+export interface CookieEntry {
+  // Host name the cookies are used for, subdomains included
+  domain: string;
+  // Cookies in the file that belong to the domain
+  cookieCount: number;
+  // When the last of the domain's persistent cookies runs out; unset for session cookies only
+  cookiesExpireAt?: number;
+  // Set with /cookies expire; the entry isn't used after this
+  expiresAt?: number;
+  addedBy: number;
+  addedAt: number;
+  // Downloads in a row that needed a login although these cookies were passed
+  authFailures: number;
+  // Admins were told the cookies look stale; cleared by a success or a new upload
+  staleWarnedAt?: number;
+}
+
+export interface CookieStoreConfig {
+  // Cookie files live here, readable by the bot's user only
+  dir: string;
+  fileName: string;
+}
+
+export type CookieFileProblem = 'too_large' | 'empty' | 'invalid_line' | 'no_domain_cookies';
+
+export class CookieFileError extends Error {
+  readonly problem: CookieFileProblem;
+  // 1-based line number for 'invalid_line'
+  readonly line?: number;
+
+  constructor(problem: CookieFileProblem, line?: number) {
+    super(line ? `Invalid cookie file (${problem} at line ${line})` : `Invalid cookie file (${problem})`);
+    this.name = 'CookieFileError';
+    this.problem = problem;
+    this.line = line;
+  }
+}
+
+interface CookiesData {
+  entries: Record<string, CookieEntry>;
+}
+
+interface ParsedCookie {
+  domain: string;
+  // Unix seconds; 0 for a session cookie
+  expires: number;
+}
+
+// A cookies.txt is a few KB; anything larger is the wrong file
+export const MAX_COOKIE_FILE_BYTES = 1024 * 1024;
+
+// Auth failures in a row before admins are warned
+const STALE_AFTER_FAILURES = 2;
+
+const DOMAIN_PATTERN = /^(?=.{1,253}$)([a-z0-9-]+\.)+[a-z]{2,}$/;
+
+/** "https://www.Instagram.com/x" and "instagram.com" both become "instagram.com". */
+export function normalizeCookieDomain(value: string): string | undefined {
+  const host = value
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .split(/[/:?#]/)[0]
+    .replace(/^www\./, '');
+  return DOMAIN_PATTERN.test(host) ? host : undefined;
+}
+
+/**
+ * Parses a Netscape cookies.txt: one cookie per line, seven tab-separated
+ * fields. "#HttpOnly_" lines are cookies, other "#" lines are comments.
+ */
+export function parseNetscapeCookies(content: string): ParsedCookie[] {
+  const cookies: ParsedCookie[] = [];
+
+  content.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.startsWith('#HttpOnly_') ? rawLine.slice('#HttpOnly_'.length) : rawLine;
+    if (!line.trim() || line.startsWith('#')) {
+      return;
+    }
+
+    const fields = line.split('\t');
+    const expires = Number(fields[4]);
+    if (fields.length !== 7 || !fields[0] || !Number.isFinite(expires)) {
+      throw new CookieFileError('invalid_line', index + 1);
+    }
+    cookies.push({ domain: fields[0].replace(/^\./, '').toLowerCase(), expires });
+  });
+
+  if (cookies.length === 0) {
+    throw new CookieFileError('empty');
+  }
+  return cookies;
+}
+
+function matchesDomain(hostname: string, domain: string): boolean {
+  return hostname === domain || hostname.endsWith(`.${domain}`);
+}
+
+/**
+ * yt-dlp cookies per site, uploaded by admins. The files hold live sessions,
+ * so the directory and files are private to the bot's user; the index keeps
+ * only metadata.
+ */
+export class CookieStore {
+  private config: CookieStoreConfig;
+  private store: JsonStore<CookiesData>;
+
+  constructor(config: CookieStoreConfig) {
+    this.config = config;
+    this.store = new JsonStore<CookiesData>(config.fileName, () => ({ entries: {} }));
+  }
+
+  async init(): Promise<void> {
+    await fs.ensureDir(this.config.dir);
+    await fs.chmod(this.config.dir, 0o700);
+    await this.store.load();
+
+    // Index entries whose file went missing would pass a nonexistent --cookies path
+    for (const domain of Object.keys(this.store.data.entries)) {
+      if (!(await fs.pathExists(this.filePath(domain)))) {
+        logger.warn({ domain }, 'Cookie file missing, dropping entry');
+        delete this.store.data.entries[domain];
+      }
+    }
+    await this.store.save();
+
+    logger.info({ domains: Object.keys(this.store.data.entries) }, 'Cookie store loaded');
+  }
+
+  list(): CookieEntry[] {
+    return Object.values(this.store.data.entries).sort((a, b) => a.domain.localeCompare(b.domain));
+  }
+
+  /** The most specific usable entry for a URL, skipping expired ones. */
+  match(url: string): CookieEntry | undefined {
+    let hostname: string;
+    try {
+      hostname = new URL(url).hostname.toLowerCase();
+    } catch {
+      return undefined;
+    }
+
+    return this.list()
+      .filter((entry) => matchesDomain(hostname, entry.domain) && !this.isExpired(entry))
+      .sort((a, b) => b.domain.length - a.domain.length)[0];
+  }
+
+  filePath(domain: string): string {
+    return path.join(this.config.dir, `${domain}.txt`);
+  }
+
+  isExpired(entry: CookieEntry, now = Date.now()): boolean {
+    return entry.expiresAt !== undefined && entry.expiresAt <= now;
+  }
+
+  /** Validates and stores a cookies.txt for a domain, replacing any previous one. */
+  async set(domain: string, content: string, addedBy: number): Promise<CookieEntry> {
+    if (Buffer.byteLength(content) > MAX_COOKIE_FILE_BYTES) {
+      throw new CookieFileError('too_large');
+    }
+
+    const cookies = parseNetscapeCookies(content).filter((cookie) => matchesDomain(cookie.domain, domain));
+    if (cookies.length === 0) {
+      throw new CookieFileError('no_domain_cookies');
+    }
+
+    const persistent = cookies.filter((cookie) => cookie.expires > 0);
+    const entry: CookieEntry = {
+      domain,
+      cookieCount: cookies.length,
+      cookiesExpireAt: persistent.length > 0 ? Math.max(...persistent.map((cookie) => cookie.expires)) * 1000 : undefined,
+      addedBy,
+      addedAt: Date.now(),
+      authFailures: 0,
+    };
+
+    // Written privately first, so the file is never readable by others, even briefly
+    const filePath = this.filePath(domain);
+    const tmpPath = `${filePath}.tmp`;
+    await fs.writeFile(tmpPath, content, { mode: 0o600 });
+    await fs.move(tmpPath, filePath, { overwrite: true });
+
+    this.store.data.entries[domain] = entry;
+    await this.store.save();
+    logger.info({ domain, cookieCount: entry.cookieCount, addedBy }, 'Cookies stored');
+    return entry;
+  }
+
+  async remove(domain: string): Promise<boolean> {
+    if (!this.store.data.entries[domain]) {
+      return false;
+    }
+
+    delete this.store.data.entries[domain];
+    await fs.remove(this.filePath(domain));
+    await this.store.save();
+    logger.info({ domain }, 'Cookies removed');
+    return true;
+  }
+
+  async expire(domain: string, at: number): Promise<CookieEntry | undefined> {
+    const entry = this.store.data.entries[domain];
+    if (!entry) {
+      return undefined;
+    }
+
+    entry.expiresAt = at;
+    await this.store.save();
+    return entry;
+  }
+
+  /**
+   * Counts a download that needed a login although cookies were passed.
+   * Returns the entry once it crosses the threshold, so admins are warned once.
+   */
+  async recordAuthFailure(url: string): Promise<CookieEntry | undefined> {
+    const entry = this.match(url);
+    if (!entry) {
+      return undefined;
+    }
+
+    entry.authFailures++;
+    const warn = entry.authFailures >= STALE_AFTER_FAILURES && entry.staleWarnedAt === undefined;
+    if (warn) {
+      entry.staleWarnedAt = Date.now();
+      logger.warn({ domain: entry.domain, authFailures: entry.authFailures }, 'Cookies look stale');
+    }
+    await this.store.save();
+    return warn ? entry : undefined;
+  }
+
+  async recordSuccess(url: string): Promise<void> {
+    const entry = this.match(url);
+    if (entry && (entry.authFailures > 0 || entry.staleWarnedAt !== undefined)) {
+      entry.authFailures = 0;
+      entry.staleWarnedAt = undefined;
+      await this.store.save();
+    }
+  }
+}
@@ -1,133 +1,581 @@
-import { spawn } from 'child_process';
+import { ChildProcess, spawn } from 'child_process';
 import * as path from 'path';
 import * as fs from 'fs-extra';
 import { v4 as uuidv4 } from 'uuid';
+import { ClipRange, toDownloadSection } from '../utils/clip';
 import { logger } from '../utils/logger';
-import { createTempDir, cleanupTempDir } from '../utils/temp';
+import { metrics } from '../utils/metrics';
+import { makeThumbnail, probeVideo } from '../utils/media';
+import { killProcessTree } from '../utils/process';
+import { createProgressParser, DownloadProgress, PROGRESS_TEMPLATE } from '../utils/progress';
+import { backoffDelay, sleep } from '../utils/retry';
+import { createTempDir, cleanupTempDir, TEMP_BASE_DIR } from '../utils/temp';
+import { CookieStore } from './cookies';
+import { classifyYtDlpError, describeError, DownloadError, DownloadErrorCode, isTransientError } from './errors';
+import { FitStrategy, SizeFitter } from './fitter';
+import { SiteProfile, SiteProfiles } from './profiles';
+
+export type DownloadMode = 'video' | 'audio';
+
+export type AudioFormat = 'mp3' | 'm4a' | 'opus';
+
+export const AUDIO_FORMATS: AudioFormat[] = ['mp3', 'm4a', 'opus'];
+
+export interface DownloadOptions {
+  mode?: DownloadMode;
+  audioFormat?: AudioFormat;
+  // Upper bound for the video height, e.g. 720; unset means best available
+  maxHeight?: number;
+  // What to do with a video that is still too large after the lower quality retry
+  fitStrategy?: FitStrategy | 'off';
+  // Only this part of the video is downloaded
+  clip?: ClipRange;
+}
+
+export interface ResolvedDownloadOptions {
+  mode: DownloadMode;
+  audioFormat: AudioFormat;
+  maxHeight?: number;
+  fitStrategy: FitStrategy | 'off';
+  clip?: ClipRange;
+}
+
+export interface QualityOption {
+  height: number;
+  // Estimated size of video + audio in bytes, when yt-dlp reports enough to tell
+  estimatedSize?: number;
+}
+
+export interface FormatProbe {
+  success: boolean;
+  title?: string;
+  duration?: number;
+  qualities: QualityOption[];
+  error?: string;
+  errorCode?: DownloadErrorCode;
+}
+
+export interface PlaylistEntry {
+  url: string;
+  // The site's id of the entry, where the listing has one
+  id?: string;
+  title?: string;
+  duration?: number;
+  // Rough guess: flat listings carry no formats
+  estimatedSize?: number;
+}
+
+export interface PlaylistProbe {
+  success: boolean;
+  title?: string;
+  entries: PlaylistEntry[];
+  // More entries matched than the item limit allows
+  truncated: boolean;
+  // False when the link turned out to be a single video
+  isPlaylist: boolean;
+  error?: string;
+  errorCode?: DownloadErrorCode;
+}
+
+export type MediaItemType = 'photo' | 'video';
+
+export interface MediaItem {
+  type: MediaItemType;
+  filePath: string;
+  fileSize?: number;
+  // Videos only: as displayed, so Telegram gets the aspect ratio right
+  width?: number;
+  height?: number;
+  duration?: number;
+  // Videos only: a JPEG within Telegram's thumbnail limits
+  thumbnailPath?: string;
+}
+
+// What yt-dlp knows about a post besides its media, for captions
+export interface MediaMetadata {
+  uploader?: string;
+  // YYYY-MM-DD
+  uploadDate?: string;
+  description?: string;
+  viewCount?: number;
+}
+
+export type ProgressCallback = (progress: DownloadProgress) => void;
+
+export interface DownloadHooks {
+  onProgress?: ProgressCallback;
+  // Aborting kills yt-dlp together with its ffmpeg children
+  signal?: AbortSignal;
+}
 
 export interface DownloadResult {
   success: boolean;
   filePath?: string;
+  tempDir?: string;
+  // Ordered items of a multi-item post (carousel, slideshow); a single video yields one item
+  items?: MediaItem[];
   title?: string;
   error?: string;
+  errorCode?: DownloadErrorCode;
+  // Raw yt-dlp stderr of a failed run, for logs only
+  stderr?: string;
+  cancelled?: boolean;
   fileSize?: number;
+  mediaType?: DownloadMode;
+  // Set when the video was re-encoded or split to fit the upload limit
+  fitStrategy?: FitStrategy;
+  performer?: string;
+  duration?: number;
+  metadata?: MediaMetadata;
+  // The part of the video that was downloaded, when not all of it
+  clip?: ClipRange;
 }
 
 export interface DownloaderConfig {
   downloadTimeout: number;
   maxFileSizeMB: number;
+  audioFormat: AudioFormat;
+  fitStrategy: FitStrategy | 'off';
+  // Seconds a re-encode or split may take; a long video takes far longer than its download
+  fitTimeout: number;
+  // Extra attempts after a transient failure (rate limit, network, server error)
+  retries: number;
+  // First retry waits about this long, doubling with every further attempt
+  retryBaseDelayMs: number;
+  // Per-site yt-dlp settings; built-in profiles when omitted
+  profiles?: SiteProfiles;
+  // Cookies passed to yt-dlp for the sites they were uploaded for
+  cookies?: CookieStore;
+}
+
+interface PreparedCookies {
+  args: string[];
+  release: () => Promise<void>;
+}
+
+const VIDEO_EXTENSIONS = ['.mp4', '.mkv', '.webm', '.mov'];
+const AUDIO_EXTENSIONS = ['.mp3', '.m4a', '.opus', '.ogg'];
+const IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.webp'];
+
+// Every entry of a multi-item post is saved as "<playlist index>_<id>.<ext>"
+const OUTPUT_TEMPLATE = '%(playlist_index|0)s_%(id)s.%(ext)s';
+
+const MEDIA_ITEM_ARGS = [
+  // Image-only entries (carousel slides, photo slideshows) have no formats;
+  // their thumbnail is the image itself, so keep it and send it as a photo
+  '--ignore-no-formats-error',
+  '--write-thumbnail',
+  '--convert-thumbnails',
+  'jpg',
+  // Takes precedence over a profile's bare "ffmpeg:" arguments, which are meant for the video
+  '--postprocessor-args',
+  'ThumbnailsConvertor+ffmpeg:',
+  '--write-info-json',
+  '--no-write-playlist-metafiles',
+];
+
+// Bitrate (bits/s) assumed for playlist size estimates, about what a 720p video needs
+const PLAYLIST_ASSUMED_BITRATE = 2_000_000;
+
+const RETRY_MAX_DELAY_MS = 30_000;
+
+const CANCELLED_RESULT: DownloadResult = {
+  success: false,
+  cancelled: true,
+  error: describeError('cancelled'),
+  errorCode: 'cancelled',
+};
+
+function failure(code: DownloadErrorCode, error = describeError(code)): DownloadResult {
+  return { success: false, error, errorCode: code };
+}
+
+function errorFields(error: unknown): { error: string; errorCode: DownloadErrorCode } {
+  return {
+    error: error instanceof Error ? error.message : 'Unknown error',
+    errorCode: error instanceof DownloadError ? error.code : 'unknown',
+  };
+}
+
+/** The clip and its length; yt-dlp reports the duration of the whole video. */
+function clipFields(clip: ClipRange, fullDuration?: number): Pick<DownloadResult, 'clip' | 'duration'> {
+  const end = clip.end ?? fullDuration;
+  return {
+    clip,
+    duration: end !== undefined ? Math.max(0, Math.min(end, fullDuration ?? end) - clip.start) : undefined,
+  };
+}
+
+/**
+ * Turns a user range into a yt-dlp --playlist-items spec: "10" is the first
+ * ten entries, "5-8" entries 5 to 8, "-5" the last five, "1,3,7" a list.
+ */
+export function parsePlaylistRange(value: string): string | undefined {
+  const normalized = value.trim().replace(/\s+/g, '');
+  if (/^\d+$/.test(normalized)) {
+    return parseInt(normalized, 10) > 0 ? `1:${normalized}` : undefined;
+  }
+  const span = normalized.match(/^(\d+)[-:](\d+)$/);
+  if (span) {
+    return parseInt(span[1], 10) > 0 && parseInt(span[1], 10) <= parseInt(span[2], 10)
+      ? `${span[1]}:${span[2]}`
+      : undefined;
+  }
+  if (/^-\d+$/.test(normalized)) {
+    return `${normalized}:`;
+  }
+  if (/^\d+(,\d+)+$/.test(normalized)) {
+    return normalized;
+  }
+  return undefined;
+}
+
+export function isAudioFormat(value: string): value is AudioFormat {
+  return (AUDIO_FORMATS as string[]).includes(value);
 }
 
 export class Downloader {
   private config: DownloaderConfig;
+  private fitter: SizeFitter;
+  private profiles: SiteProfiles;
 
   constructor(config: DownloaderConfig) {
     this.config = config;
+    this.profiles = config.profiles || new SiteProfiles();
+    this.fitter = new SizeFitter({
+      maxFileSizeMB: config.maxFileSizeMB,
+      timeout: config.fitTimeout,
+    });
   }
 
-  async download(url: string): Promise<DownloadResult> {
+  get maxFileSizeBytes(): number {
+    return this.config.maxFileSizeMB * 1024 * 1024;
+  }
+
+  resolveOptions(options: DownloadOptions = {}): ResolvedDownloadOptions {
+    return {
+      mode: options.mode || 'video',
+      audioFormat: options.audioFormat || this.config.audioFormat,
+      maxHeight: options.maxHeight,
+      fitStrategy: options.fitStrategy || this.config.fitStrategy,
+      clip: options.clip,
+    };
+  }
+
+  /**
+   * Lists the available video heights with estimated sizes, using the JSON
+   * metadata from yt-dlp without downloading anything. With a clip, sizes
+   * are scaled to its share of the video.
+   */
+  async probeFormats(url: string, clip?: ClipRange): Promise<FormatProbe> {
     const requestId = uuidv4();
-    const tempDir = await createTempDir(requestId);
+    logger.info({ requestId, url }, 'Probing formats');
+    const cookies = await this.prepareCookies(url, requestId);
 
-    logger.info({ requestId, url }, 'Starting download');
+    try {
+      const info = await this.runYtDlpJson(
+        ['-J', '--no-playlist', '--no-warnings', ...this.extraArgsFor(url), ...cookies.args, url],
+        requestId
+      );
+      const duration = typeof info.duration === 'number' ? info.duration : undefined;
+      const formats = Array.isArray(info.formats) ? (info.formats as Record<string, unknown>[]) : [];
+      const share = clip && duration ? (clipFields(clip, duration).duration ?? duration) / duration : 1;
 
+      return {
+        success: true,
+        title: pickString(info.title),
+        duration,
+        qualities: estimateQualities(formats, duration).map((quality) => ({
+          ...quality,
+          estimatedSize: quality.estimatedSize !== undefined ? Math.round(quality.estimatedSize * share) : undefined,
+        })),
+      };
+    } catch (error) {
+      logger.warn({ requestId, error }, 'Format probe failed');
+      return {
+        success: false,
+        qualities: [],
+        ...errorFields(error),
+      };
+    } finally {
+      await cookies.release();
+    }
+  }
+
+  /**
+   * Lists playlist or channel entries without downloading them. `range` is a
+   * yt-dlp --playlist-items spec (see parsePlaylistRange); without one the
+   * first `maxItems` entries are listed.
+   */
+  async listPlaylist(url: string, range: string | undefined, maxItems: number): Promise<PlaylistProbe> {
+    const requestId = uuidv4();
+    logger.info({ requestId, url, range }, 'Listing playlist');
+    const cookies = await this.prepareCookies(url, requestId);
+
+    try {
+      // One extra entry tells whether the listing was cut off
+      const items = range || `1:${maxItems + 1}`;
+      const info = await this.runYtDlpJson(
+        [
+          '-J',
+          '--flat-playlist',
+          '--yes-playlist',
+          '--no-warnings',
+          '--playlist-items',
+          items,
+          ...this.extraArgsFor(url),
+          ...cookies.args,
+          url,
+        ],
+        requestId
+      );
+
+      // A plain video link comes back as the video itself
+      const rawEntries = Array.isArray(info.entries) ? (info.entries as Record<string, unknown>[]) : [info];
+      const entries = rawEntries
+        .map((entry): PlaylistEntry | undefined => {
+          const entryUrl = pickString(entry.webpage_url, entry.url, rawEntries.length === 1 ? url : undefined);
+          if (!entryUrl || !/^https?:\/\//.test(entryUrl)) {
+            return undefined;
+          }
+
+          const duration = typeof entry.duration === 'number' ? entry.duration : undefined;
+          const size = typeof entry.filesize_approx === 'number'
+            ? entry.filesize_approx
+            : duration && (duration * PLAYLIST_ASSUMED_BITRATE) / 8;
+          return {
+            url: entryUrl,
+            id: pickString(entry.id),
+            title: pickString(entry.title),
+            duration,
+            // Anything larger gets a lower quality or fitted to the limit
+            estimatedSize: size ? Math.min(size, this.maxFileSizeBytes) : undefined,
+          };
+        })
+        .filter((entry): entry is PlaylistEntry => entry !== undefined);
+
+      return {
+        success: true,
+        title: pickString(info.title),
+        entries: entries.slice(0, maxItems),
+        truncated: entries.length > maxItems,
+        isPlaylist: Array.isArray(info.entries),
+      };
+    } catch (error) {
+      logger.warn({ requestId, error }, 'Playlist listing failed');
+      return {
+        success: false,
+        entries: [],
+        truncated: false,
+        isPlaylist: false,
+        ...errorFields(error),
+      };
+    } finally {
+      await cookies.release();
+    }
+  }
+
+  async download(
+    url: string,
+    options: DownloadOptions = {},
+    hooks: DownloadHooks = {}
+  ): Promise<DownloadResult> {
+    const requestId = uuidv4();
+    const resolved = this.resolveOptions(options);
+    const mode = resolved.mode;
+    const profile = this.profiles.match(url);
+    const heights = mode === 'audio' ? [undefined] : buildLadder(resolved.maxHeight, profile.ladder);
+
+    logger.info({ requestId, url, mode, profile: profile.name, clip: resolved.clip }, 'Starting download');
+
+    const startTime = Date.now();
+    const cookies = await this.prepareCookies(url, requestId);
+
+    try {
+      for (const [index, maxHeight] of heights.entries()) {
+        if (hooks.signal?.aborted) {
+          return CANCELLED_RESULT;
+        }
+
+        const result = await this.downloadAttempt(url, requestId, { ...resolved, maxHeight }, profile, cookies.args, hooks);
+        if (!result.success) {
+          return result;
+        }
+
+        const fileSizeMB = largestFileSize(result) / (1024 * 1024);
+        if (fileSizeMB <= this.config.maxFileSizeMB) {
+          return await this.describeVideos(result, hooks.signal);
+        }
+
+        if (mode === 'audio') {
+          logger.warn({ requestId, fileSizeMB }, 'Audio file too large');
+          await cleanupTempDir(result.tempDir!);
+          return failure('too_large', `Audio file is too large (${fileSizeMB.toFixed(1)} MB)`);
+        }
+
+        // Out of ladder steps: re-encode or split what we have
+        if (index === heights.length - 1) {
+          logger.warn({ requestId, fileSizeMB }, 'File too large at the lowest quality');
+          return await this.describeVideos(await this.fitToLimit(result, resolved, requestId, hooks), hooks.signal);
+        }
+
+        await cleanupTempDir(result.tempDir!);
+        logger.warn({ requestId, fileSizeMB, nextHeight: heights[index + 1] }, 'File too large, trying lower quality');
+      }
+
+      // Unreachable: the last ladder step always returns
+      return failure('unknown');
+    } finally {
+      await cookies.release();
+      metrics.downloadDuration.observe({ mode }, (Date.now() - startTime) / 1000);
+    }
+  }
+
+  /** One yt-dlp run at a fixed quality, measured; the temp dir is removed on failure. */
+  private async downloadAttempt(
+    url: string,
+    requestId: string,
+    options: ResolvedDownloadOptions,
+    profile: SiteProfile,
+    cookieArgs: string[],
+    hooks: DownloadHooks
+  ): Promise<DownloadResult> {
+    const tempDir = await createTempDir(requestId);
     const startTime = Date.now();
 
     try {
-      const result = await this.runYtDlp(url, tempDir, requestId);
+      const args = this.buildArgs(url, path.join(tempDir, OUTPUT_TEMPLATE), options, profile, cookieArgs);
+      logger.debug({ requestId, args }, 'Running yt-dlp');
+
+      let result: DownloadResult;
+      for (let attempt = 0; ; attempt++) {
+        result = await this.runYtDlp(args, tempDir, requestId, options.mode === 'audio', hooks);
+        if (result.success || !(await this.waitBeforeRetry(requestId, result, attempt, hooks.signal))) {
+          break;
+        }
+        // Start over rather than resume whatever the failed run left behind
+        await fs.emptyDir(tempDir);
+      }
 
       if (!result.success) {
         await cleanupTempDir(tempDir);
         return result;
       }
 
-      const filePath = result.filePath!;
-      const stats = await fs.stat(filePath);
-      const fileSizeMB = stats.size / (1024 * 1024);
+      const { fileSize, largestFileSize } = await this.measureFiles(result);
 
       logger.info(
-        { requestId, fileSizeMB, executionTime: Date.now() - startTime },
+        {
+          requestId,
+          maxHeight: options.maxHeight,
+          fileSizeMB: largestFileSize / (1024 * 1024),
+          itemCount: result.items?.length ?? 1,
+          executionTime: Date.now() - startTime,
+        },
         'Download completed'
       );
 
-      // Check file size
-      if (fileSizeMB > this.config.maxFileSizeMB) {
-        logger.warn({ requestId, fileSizeMB }, 'File too large, trying lower quality');
-        await cleanupTempDir(tempDir);
-        return await this.downloadLowerQuality(url, requestId);
-      }
-
       return {
-        success: true,
-        filePath,
-        title: result.title,
-        fileSize: stats.size,
+        ...result,
+        fileSize,
+        ...(options.clip && clipFields(options.clip, result.duration)),
       };
     } catch (error) {
       logger.error({ requestId, error }, 'Download failed');
       await cleanupTempDir(tempDir);
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
+        ...errorFields(error),
       };
     }
   }
 
-  private async runYtDlp(
+  private buildArgs(
     url: string,
+    outputPath: string,
+    options: ResolvedDownloadOptions,
+    profile: SiteProfile,
+    cookieArgs: string[]
+  ): string[] {
+    const heightFilter = options.maxHeight ? `[height<=${options.maxHeight}]` : '';
+
+    const formatArgs = options.mode === 'audio' ? [
+      // Audio-only: extract the best audio stream and convert to the requested format
+      '-f',
+      'bestaudio/best',
+      '--extract-audio',
+      '--audio-format',
+      options.audioFormat,
+      '--audio-quality',
+      '0',
+      // Keep metadata for performer/title/duration
+      '--write-info-json',
+      '--no-write-playlist-metafiles',
+    ] : [
+      '-f',
+      profile.format.replace(/\{height\}/g, heightFilter),
+      ...(profile.mergeFormat ? ['--merge-output-format', profile.mergeFormat] : []),
+      ...(profile.remuxVideo ? ['--remux-video', profile.remuxVideo] : []),
+      ...(profile.postprocessorArgs ? ['--postprocessor-args', profile.postprocessorArgs] : []),
+      ...MEDIA_ITEM_ARGS,
+    ];
+
+    // Cutting at exact timestamps re-encodes around the cuts instead of snapping to keyframes
+    const clipArgs = options.clip
+      ? ['--download-sections', toDownloadSection(options.clip), '--force-keyframes-at-cuts']
+      : [];
+
+    return [
+      '--no-playlist',
+      // One progress line per update in a parseable format
+      '--newline',
+      '--progress-template',
+      PROGRESS_TEMPLATE,
+      ...formatArgs,
+      ...clipArgs,
+      ...(profile.extraArgs || []),
+      ...cookieArgs,
+      '-o',
+      outputPath,
+      url,
+    ];
+  }
+
+  private runYtDlp(
+    args: string[],
     tempDir: string,
-    requestId: string
+    requestId: string,
+    isAudio: boolean,
+    hooks: DownloadHooks
   ): Promise<DownloadResult> {
     return new Promise((resolve) => {
-      const outputPath = path.join(tempDir, '%(title)s.%(ext)s');
-
-      // Check if it's Instagram URL
-      const isInstagram = url.includes('instagram.com');
-
-      const args = [
-        '--no-playlist',
-        '--no-progress',
-        ...(isInstagram ? [
-          // Instagram-specific: download combined video+audio format
-          '-f',
-          'bestvideo[ext=mp4]+bestaudio[ext=m4a]/best[ext=mp4]/best',
-          '--merge-output-format',
-          'mp4',
-          // Force H.264 video and AAC audio for iOS compatibility
-          '--postprocessor-args',
-          'ffmpeg:-c:v libx264 -c:a aac -pix_fmt yuv420p -movflags +faststart',
-        ] : [
-          '-f',
-          'bestvideo+bestaudio/best',
-          '--merge-output-format',
-          'mp4',
-          '--remux-video',
-          'mp4',
-        ]),
-        '-o',
-        outputPath,
-        url,
-      ];
-
-      logger.debug({ requestId, args }, 'Running yt-dlp');
-
       const ytDlp = spawn('yt-dlp', args, {
         stdio: ['ignore', 'pipe', 'pipe'],
+        // Own process group, so ffmpeg children can be killed along with yt-dlp
+        detached: true,
       });
+      trackProcess(ytDlp);
 
-      let output = '';
+      const parseProgress = hooks.onProgress ? createProgressParser(hooks.onProgress) : undefined;
       let errorOutput = '';
+      let cancelled = false;
+
+      const onAbort = () => {
+        cancelled = true;
+        killProcessTree(ytDlp);
+      };
+      if (hooks.signal?.aborted) {
+        onAbort();
+      }
+      hooks.signal?.addEventListener('abort', onAbort, { once: true });
 
       const timeout = setTimeout(() => {
-        ytDlp.kill('SIGTERM');
-        resolve({
-          success: false,
-          error: 'Download timeout',
-        });
+        killProcessTree(ytDlp);
+        resolve(failure('timeout'));
       }, this.config.downloadTimeout * 1000);
 
       ytDlp.stdout?.on('data', (data: Buffer) => {
-        output += data.toString();
+        parseProgress?.(data.toString());
       });
 
       ytDlp.stderr?.on('data', (data: Buffer) => {
@@ -136,143 +584,164 @@ export class Downloader {
 
       ytDlp.on('close', async (code) => {
         clearTimeout(timeout);
+        hooks.signal?.removeEventListener('abort', onAbort);
 
-        if (code === 0) {
-          // Find the downloaded file and extract title from filename
+        if (cancelled) {
+          logger.info({ requestId }, 'Download cancelled');
+          resolve(CANCELLED_RESULT);
+        } else if (code === 0) {
+          // Find the downloaded files
           try {
             const files = await fs.readdir(tempDir);
-            const videoFile = files.find((f) => 
-              f.endsWith('.mp4') || f.endsWith('.mkv') || f.endsWith('.webm') || f.endsWith('.mov')
-            );
-
-            if (videoFile) {
-              // Extract title from filename (remove extension)
-              const title = path.basename(videoFile, path.extname(videoFile));
-              resolve({
-                success: true,
-                filePath: path.join(tempDir, videoFile),
-                title: title || 'Unknown',
-              });
-            } else {
-              resolve({
-                success: false,
-                error: 'No video file found after download',
-              });
+
+            if (isAudio) {
+              resolve(await this.collectAudioResult(tempDir, files));
+              return;
             }
+
+            resolve(await this.collectMediaResult(tempDir, files));
           } catch (err) {
-            resolve({
-              success: false,
-              error: 'Failed to find downloaded file',
-            });
+            resolve(failure('no_media', 'Failed to find downloaded file'));
           }
         } else {
-          const errorMessage = this.parseYtDlpError(errorOutput);
-          resolve({
-            success: false,
-            error: errorMessage,
-          });
+          const errorCode = classifyYtDlpError(errorOutput);
+          logger.warn({ requestId, code, errorCode, stderr: errorOutput.trim() }, 'yt-dlp failed');
+          resolve({ ...failure(errorCode), stderr: errorOutput });
         }
       });
 
       ytDlp.on('error', (err) => {
         clearTimeout(timeout);
-        resolve({
-          success: false,
-          error: `yt-dlp failed to start: ${err.message}`,
-        });
+        hooks.signal?.removeEventListener('abort', onAbort);
+        resolve(failure('spawn_failed', `yt-dlp failed to start: ${err.message}`));
       });
     });
   }
 
-  private async downloadLowerQuality(url: string, requestId: string): Promise<DownloadResult> {
-    const tempDir = await createTempDir(requestId);
+  /**
+   * Re-encodes or splits a single video that is still above the size limit.
+   * Other results are returned unchanged.
+   */
+  private async fitToLimit(
+    result: DownloadResult,
+    options: ResolvedDownloadOptions,
+    requestId: string,
+    hooks: DownloadHooks
+  ): Promise<DownloadResult> {
+    const items = result.items || [];
+    const [item] = items;
+    const tooLarge = items.length === 1 && item.type === 'video' && (item.fileSize ?? 0) > this.maxFileSizeBytes;
 
-    logger.info({ requestId, url }, 'Attempting lower quality download');
+    if (!tooLarge || options.fitStrategy === 'off') {
+      return result;
+    }
 
-    try {
-      const result = await this.runYtDlpLowerQuality(url, tempDir, requestId);
+    hooks.onProgress?.({ phase: 'processing' });
 
-      if (!result.success) {
-        await cleanupTempDir(tempDir);
-        return result;
-      }
+    const fit = await this.fitter.fit(item.filePath, options.fitStrategy, hooks.signal);
+    if (!fit.success) {
+      await cleanupTempDir(result.tempDir!);
+      return hooks.signal?.aborted ? CANCELLED_RESULT : failure('processing_failed', fit.error);
+    }
 
-      const filePath = result.filePath!;
+    const fittedItems: MediaItem[] = [];
+    for (const filePath of fit.files) {
       const stats = await fs.stat(filePath);
-      const fileSizeMB = stats.size / (1024 * 1024);
+      fittedItems.push({ type: 'video', filePath, fileSize: stats.size, thumbnailPath: item.thumbnailPath });
+    }
 
-      logger.info(
-        { requestId, fileSizeMB },
-        'Lower quality download completed'
-      );
+    logger.info({ requestId, strategy: options.fitStrategy, parts: fittedItems.length }, 'Video fitted to size limit');
 
-      return {
-        success: true,
-        filePath,
-        title: result.title,
-        fileSize: stats.size,
-      };
+    return {
+      ...result,
+      filePath: fittedItems[0].filePath,
+      items: fittedItems,
+      fileSize: fittedItems.reduce((sum, fitted) => sum + (fitted.fileSize ?? 0), 0),
+      fitStrategy: options.fitStrategy,
+    };
+  }
+
+  private extraArgsFor(url: string): string[] {
+    return this.profiles.match(url).extraArgs || [];
+  }
+
+  /**
+   * Gives one request its own copy of the site's cookies: yt-dlp writes the
+   * jar back on exit, which must neither race other jobs nor touch the stored file.
+   */
+  private async prepareCookies(url: string, requestId: string): Promise<PreparedCookies> {
+    const cookies = this.config.cookies;
+    const entry = cookies?.match(url);
+    if (!cookies || !entry) {
+      return { args: [], release: async () => {} };
+    }
+
+    const copyPath = path.join(TEMP_BASE_DIR, `cookies-${requestId}.txt`);
+    try {
+      await fs.ensureDir(TEMP_BASE_DIR);
+      await fs.copyFile(cookies.filePath(entry.domain), copyPath);
+      await fs.chmod(copyPath, 0o600);
     } catch (error) {
-      logger.error({ requestId, error }, 'Lower quality download failed');
-      await cleanupTempDir(tempDir);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
-      };
+      // Try without cookies rather than fail the request outright
+      logger.warn({ requestId, domain: entry.domain, error }, 'Failed to prepare cookies');
+      return { args: [], release: async () => {} };
     }
+    logger.debug({ requestId, domain: entry.domain }, 'Passing cookies to yt-dlp');
+
+    return {
+      args: ['--cookies', copyPath],
+      release: () => fs.remove(copyPath).catch(() => {}),
+    };
   }
 
-  private async runYtDlpLowerQuality(
-    url: string,
-    tempDir: string,
-    requestId: string
-  ): Promise<DownloadResult> {
-    return new Promise((resolve) => {
-      const outputPath = path.join(tempDir, '%(title)s.%(ext)s');
-
-      // Check if it's Instagram URL
-      const isInstagram = url.includes('instagram.com');
-
-      const args = [
-        '--no-playlist',
-        '--no-progress',
-        ...(isInstagram ? [
-          // Instagram-specific: download combined video+audio format
-          '-f',
-          'bestvideo[height<=480][ext=mp4]+bestaudio[ext=m4a]/best[height<=480][ext=mp4]/best',
-          '--merge-output-format',
-          'mp4',
-          // Force H.264 video and AAC audio for iOS compatibility
-          '--postprocessor-args',
-          'ffmpeg:-c:v libx264 -c:a aac -pix_fmt yuv420p -movflags +faststart',
-        ] : [
-          '-f',
-          'bestvideo[height<=480]+bestaudio/best[height<=480]/best',
-          '--merge-output-format',
-          'mp4',
-          '--remux-video',
-          'mp4',
-        ]),
-        '-o',
-        outputPath,
-        url,
-      ];
-
-      logger.debug({ requestId, args }, 'Running yt-dlp (lower quality)');
+  /**
+   * Waits out the backoff before another attempt at a transiently failed run.
+   * Resolves to false when the failure is final, retries are used up or the
+   * job was cancelled meanwhile.
+   */
+  private async waitBeforeRetry(
+    requestId: string,
+    failed: { errorCode?: DownloadErrorCode },
+    attempt: number,
+    signal?: AbortSignal
+  ): Promise<boolean> {
+    if (!failed.errorCode || !isTransientError(failed.errorCode) || attempt >= this.config.retries) {
+      return false;
+    }
+
+    const delayMs = backoffDelay(attempt, { baseDelayMs: this.config.retryBaseDelayMs, maxDelayMs: RETRY_MAX_DELAY_MS });
+    logger.warn({ requestId, errorCode: failed.errorCode, retry: attempt + 1, delayMs }, 'Transient failure, retrying');
+    return sleep(delayMs, signal);
+  }
+
+  private async runYtDlpJson(args: string[], requestId: string): Promise<Record<string, unknown>> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.runYtDlpJsonOnce(args, requestId);
+      } catch (error) {
+        const retry = error instanceof DownloadError && (await this.waitBeforeRetry(requestId, { errorCode: error.code }, attempt));
+        if (!retry) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  private runYtDlpJsonOnce(args: string[], requestId: string): Promise<Record<string, unknown>> {
+    return new Promise((resolve, reject) => {
+      logger.debug({ requestId, args }, 'Running yt-dlp (metadata)');
 
       const ytDlp = spawn('yt-dlp', args, {
         stdio: ['ignore', 'pipe', 'pipe'],
       });
+      trackProcess(ytDlp);
 
       let output = '';
       let errorOutput = '';
 
       const timeout = setTimeout(() => {
         ytDlp.kill('SIGTERM');
-        resolve({
-          success: false,
-          error: 'Download timeout',
-        });
+        reject(new DownloadError('timeout', 'Metadata request timeout'));
       }, this.config.downloadTimeout * 1000);
 
       ytDlp.stdout?.on('data', (data: Buffer) => {
@@ -283,73 +752,264 @@ export class Downloader {
         errorOutput += data.toString();
       });
 
-      ytDlp.on('close', async (code) => {
+      ytDlp.on('close', (code) => {
         clearTimeout(timeout);
 
-        if (code === 0) {
-          try {
-            const files = await fs.readdir(tempDir);
-            const videoFile = files.find((f) => 
-              f.endsWith('.mp4') || f.endsWith('.mkv') || f.endsWith('.webm') || f.endsWith('.mov')
-            );
-
-            if (videoFile) {
-              const title = path.basename(videoFile, path.extname(videoFile));
-              resolve({
-                success: true,
-                filePath: path.join(tempDir, videoFile),
-                title: title || 'Unknown',
-              });
-            } else {
-              resolve({
-                success: false,
-                error: 'No video file found after download',
-              });
-            }
-          } catch (err) {
-            resolve({
-              success: false,
-              error: 'Failed to find downloaded file',
-            });
-          }
-        } else {
-          const errorMessage = this.parseYtDlpError(errorOutput);
-          resolve({
-            success: false,
-            error: errorMessage,
-          });
+        if (code !== 0) {
+          const errorCode = classifyYtDlpError(errorOutput);
+          logger.warn({ requestId, code, errorCode, stderr: errorOutput.trim() }, 'yt-dlp metadata request failed');
+          reject(new DownloadError(errorCode, undefined, errorOutput));
+          return;
+        }
+
+        try {
+          resolve(JSON.parse(output));
+        } catch {
+          reject(new DownloadError('unknown', 'Failed to parse yt-dlp metadata'));
         }
       });
 
       ytDlp.on('error', (err) => {
         clearTimeout(timeout);
-        resolve({
-          success: false,
-          error: `yt-dlp failed to start: ${err.message}`,
-        });
+        reject(new DownloadError('spawn_failed', `yt-dlp failed to start: ${err.message}`));
       });
     });
   }
 
-  private parseYtDlpError(errorOutput: string): string {
-    const lowerError = errorOutput.toLowerCase();
+  private async collectAudioResult(tempDir: string, files: string[]): Promise<DownloadResult> {
+    const audioFile = files.find((f) => AUDIO_EXTENSIONS.includes(path.extname(f).toLowerCase()));
 
-    if (lowerError.includes('private')) {
-      return 'This content is private or requires authentication';
+    if (!audioFile) {
+      return failure('no_media', 'No audio file found after download');
     }
-    if (lowerError.includes('geo') || lowerError.includes('blocked')) {
-      return 'This content is not available in your region';
+
+    const info = await this.readInfoJson(tempDir, path.basename(audioFile, path.extname(audioFile)));
+
+    return {
+      success: true,
+      filePath: path.join(tempDir, audioFile),
+      tempDir,
+      title: pickString(info?.track, info?.title) || 'Unknown',
+      mediaType: 'audio',
+      performer: pickString(info?.artist, info?.creator, info?.uploader, info?.channel),
+      duration: typeof info?.duration === 'number' ? Math.round(info.duration) : undefined,
+      metadata: extractMetadata(info),
+    };
+  }
+
+  private async collectMediaResult(tempDir: string, files: string[]): Promise<DownloadResult> {
+    // Group files by entry: a video keeps its thumbnail aside, an image-only entry becomes a photo
+    const entries = new Map<string, { video?: string; image?: string }>();
+
+    for (const file of files) {
+      if (file.endsWith('.info.json')) {
+        continue;
+      }
+
+      const ext = path.extname(file).toLowerCase();
+      const stem = path.basename(file, path.extname(file));
+      const entry = entries.get(stem) || {};
+
+      if (VIDEO_EXTENSIONS.includes(ext)) {
+        entry.video = file;
+      } else if (IMAGE_EXTENSIONS.includes(ext)) {
+        entry.image = entry.image || file;
+      } else {
+        continue;
+      }
+
+      entries.set(stem, entry);
+    }
+
+    const stems = [...entries.keys()].sort((a, b) => entryIndex(a) - entryIndex(b) || a.localeCompare(b));
+    if (stems.length === 0) {
+      return failure('no_media');
     }
-    if (lowerError.includes('unavailable') || lowerError.includes('deleted')) {
-      return 'This content is no longer available';
+
+    const infos = await Promise.all(stems.map((stem) => this.readInfoJson(tempDir, stem)));
+    const items = stems.map((stem, index): MediaItem => {
+      const entry = entries.get(stem)!;
+      if (!entry.video) {
+        return { type: 'photo', filePath: path.join(tempDir, entry.image!) };
+      }
+
+      // Until ffprobe has measured the file, trust what yt-dlp says about the format
+      const info = infos[index];
+      return {
+        type: 'video',
+        filePath: path.join(tempDir, entry.video),
+        width: positiveNumber(info?.width),
+        height: positiveNumber(info?.height),
+        duration: positiveNumber(info?.duration),
+        thumbnailPath: entry.image && path.join(tempDir, entry.image),
+      };
+    });
+    const [info] = infos;
+
+    return {
+      success: true,
+      filePath: items[0].filePath,
+      tempDir,
+      items,
+      title: pickString(info?.title) || 'Unknown',
+      mediaType: 'video',
+      duration: positiveNumber(info?.duration),
+      metadata: extractMetadata(info),
+    };
+  }
+
+  /**
+   * Measures every video of a finished download with ffprobe and gives it a
+   * thumbnail Telegram accepts, made from the site's thumbnail or a frame.
+   * yt-dlp's numbers stay when the file can't be probed.
+   */
+  private async describeVideos(result: DownloadResult, signal?: AbortSignal): Promise<DownloadResult> {
+    const videos = (result.items || []).filter((item) => item.type === 'video');
+
+    for (const item of videos) {
+      const info = await probeVideo(item.filePath, signal);
+      item.width = info?.width ?? item.width;
+      item.height = info?.height ?? item.height;
+      // A clip or a split part is shorter than the video yt-dlp described
+      item.duration = info?.duration ?? (videos.length === 1 && result.clip ? result.duration : item.duration);
+
+      const thumbnailPath = item.filePath.replace(/\.[^.]+$/, '.thumb.jpg');
+      const made = item.thumbnailPath
+        ? await makeThumbnail(item.thumbnailPath, thumbnailPath, undefined, signal)
+        : await makeThumbnail(item.filePath, thumbnailPath, Math.min(1, (item.duration ?? 0) / 2), signal);
+      item.thumbnailPath = made ? thumbnailPath : undefined;
+    }
+
+    return result;
+  }
+
+  private async measureFiles(
+    result: DownloadResult
+  ): Promise<{ fileSize: number; largestFileSize: number }> {
+    if (!result.items) {
+      const stats = await fs.stat(result.filePath!);
+      return { fileSize: stats.size, largestFileSize: stats.size };
+    }
+
+    let fileSize = 0;
+    let largestFileSize = 0;
+
+    for (const item of result.items) {
+      const stats = await fs.stat(item.filePath);
+      item.fileSize = stats.size;
+      fileSize += stats.size;
+      largestFileSize = Math.max(largestFileSize, stats.size);
+    }
+
+    return { fileSize, largestFileSize };
+  }
+
+  private async readInfoJson(
+    tempDir: string,
+    stem: string
+  ): Promise<Record<string, unknown> | undefined> {
+    const infoPath = path.join(tempDir, `${stem}.info.json`);
+    if (!(await fs.pathExists(infoPath))) {
+      return undefined;
     }
-    if (lowerError.includes('unsupported')) {
-      return 'This URL is not supported';
+
+    try {
+      return await fs.readJson(infoPath);
+    } catch (error) {
+      logger.warn({ infoPath, error }, 'Failed to read yt-dlp info JSON');
+      return undefined;
     }
-    if (lowerError.includes('sign in') || lowerError.includes('login')) {
-      return 'Authentication required to access this content';
+  }
+}
+
+/** Counts a yt-dlp process as running until it closes or fails to start. */
+function trackProcess(child: ChildProcess): void {
+  let running = true;
+  const release = () => {
+    if (running) {
+      running = false;
+      metrics.ytDlpProcesses.dec();
     }
+  };
+
+  metrics.ytDlpProcesses.inc();
+  child.once('close', release);
+  child.once('error', release);
+}
+
+/**
+ * Heights to try in order: the requested one (or best), then every ladder
+ * step below it. A request at or below the last step gets no retries.
+ */
+function buildLadder(maxHeight: number | undefined, ladder: number[]): (number | undefined)[] {
+  const lower = ladder.filter((height) => maxHeight === undefined || height < maxHeight);
+  return [maxHeight, ...lower.sort((a, b) => b - a)];
+}
+
+function largestFileSize(result: DownloadResult): number {
+  const sizes = (result.items || []).map((item) => item.fileSize ?? 0);
+  return Math.max(result.items?.length ? 0 : result.fileSize ?? 0, ...sizes);
+}
 
-    return 'Failed to download content';
+function positiveNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+function extractMetadata(info?: Record<string, unknown>): MediaMetadata {
+  const date = typeof info?.upload_date === 'string' ? info.upload_date.match(/^(\d{4})(\d{2})(\d{2})$/) : null;
+  return {
+    uploader: pickString(info?.uploader, info?.channel, info?.creator),
+    uploadDate: date ? `${date[1]}-${date[2]}-${date[3]}` : undefined,
+    description: pickString(info?.description),
+    viewCount: typeof info?.view_count === 'number' ? info.view_count : undefined,
+  };
+}
+
+function pickString(...values: unknown[]): string | undefined {
+  return values.find((v): v is string => typeof v === 'string' && v.length > 0);
+}
+
+function entryIndex(stem: string): number {
+  return parseInt(stem.split('_')[0], 10) || 0;
+}
+
+function formatSize(format: Record<string, unknown>, duration?: number): number | undefined {
+  const size = format.filesize ?? format.filesize_approx;
+  if (typeof size === 'number') {
+    return size;
+  }
+  // Total bitrate is in KBit/s
+  if (typeof format.tbr === 'number' && duration) {
+    return (format.tbr * 1000 * duration) / 8;
   }
+  return undefined;
+}
+
+function estimateQualities(formats: Record<string, unknown>[], duration?: number): QualityOption[] {
+  const hasVideo = (f: Record<string, unknown>) => f.vcodec !== 'none' && typeof f.height === 'number';
+  const hasAudio = (f: Record<string, unknown>) => f.acodec !== 'none' && f.acodec !== undefined;
+
+  // The best audio-only stream is merged into every video-only format
+  const audioSizes = formats
+    .filter((f) => !hasVideo(f) && hasAudio(f))
+    .map((f) => formatSize(f, duration))
+    .filter((size): size is number => size !== undefined);
+  const audioSize = audioSizes.length > 0 ? Math.max(...audioSizes) : 0;
+
+  const byHeight = new Map<number, number | undefined>();
+  for (const format of formats.filter(hasVideo)) {
+    const height = format.height as number;
+    const videoSize = formatSize(format, duration);
+    const size = videoSize === undefined ? undefined : videoSize + (hasAudio(format) ? 0 : audioSize);
+    const current = byHeight.get(height);
+
+    // yt-dlp picks the best format of a height, which is usually the largest one
+    if (!byHeight.has(height) || (size !== undefined && (current === undefined || size > current))) {
+      byHeight.set(height, size);
+    }
+  }
+
+  return [...byHeight.entries()]
+    .sort(([a], [b]) => b - a)
+    .map(([height, estimatedSize]) => ({ height, estimatedSize }));
 }
@@ -0,0 +1,90 @@
+/**
+ * Why a download failed. yt-dlp failures are classified from stderr; the
+ * rest come from the bot's own checks around it.
+ */
+export type DownloadErrorCode =
+  | 'private'
+  | 'login_required'
+  | 'geo_restricted'
+  | 'unavailable'
+  | 'unsupported'
+  | 'no_formats'
+  | 'rate_limited'
+  | 'server_error'
+  | 'network'
+  | 'extractor_outdated'
+  | 'timeout'
+  | 'too_large'
+  | 'processing_failed'
+  | 'no_media'
+  | 'spawn_failed'
+  | 'cancelled'
+  | 'unknown';
+
+// Failures that usually go away on their own and are worth another attempt
+const TRANSIENT_ERROR_CODES: DownloadErrorCode[] = ['rate_limited', 'server_error', 'network'];
+
+const ERROR_MESSAGES: Record<DownloadErrorCode, string> = {
+  private: 'This content is private',
+  login_required: 'Authentication required to access this content',
+  geo_restricted: 'This content is not available in your region',
+  unavailable: 'This content is no longer available',
+  unsupported: 'This URL is not supported',
+  no_formats: 'No downloadable formats found',
+  rate_limited: 'The site is rate-limiting downloads',
+  server_error: 'The site returned a server error',
+  network: 'Network error while downloading',
+  extractor_outdated: 'The site has changed and the downloader needs an update',
+  timeout: 'Download timeout',
+  too_large: 'File is too large',
+  processing_failed: 'Failed to process the video',
+  no_media: 'No media found after download',
+  spawn_failed: 'yt-dlp failed to start',
+  cancelled: 'Download cancelled',
+  unknown: 'Failed to download content',
+};
+
+// Checked in order, so specific causes win over generic wording like "not available"
+const STDERR_PATTERNS: [DownloadErrorCode, RegExp][] = [
+  ['rate_limited', /http error 429|too many requests|rate[- ]?limit/],
+  ['geo_restricted', /(available|accessible|blocked) (in|from) your (country|region|location)|geo[- ]?restrict|geo[- ]?block/],
+  ['private', /private (video|account|post|profile)|video is private|is private/],
+  ['login_required', /sign in to confirm|login required|log in to|sign in|--cookies|authentication|age[- ]restrict|http error 401/],
+  ['unsupported', /unsupported url/],
+  ['no_formats', /requested format is not available|no video formats found/],
+  ['unavailable', /video unavailable|no longer available|has been removed|been deleted|does not exist|not available|http error 404|http error 410/],
+  ['server_error', /http error 5\d\d|service unavailable|bad gateway|internal server error/],
+  [
+    'network',
+    /timed out|connection (reset|refused|aborted)|network is unreachable|name resolution|getaddrinfo|eof occurred|remote end closed|incompleteread|unable to download webpage/,
+  ],
+  ['extractor_outdated', /unable to extract|please report this issue|update to the latest version|extractor error|nsig extraction failed/],
+];
+
+export function classifyYtDlpError(stderr: string): DownloadErrorCode {
+  const lowerError = stderr.toLowerCase();
+  const match = STDERR_PATTERNS.find(([, pattern]) => pattern.test(lowerError));
+  return match ? match[0] : 'unknown';
+}
+
+export function isTransientError(code: DownloadErrorCode): boolean {
+  return TRANSIENT_ERROR_CODES.includes(code);
+}
+
+export function describeError(code: DownloadErrorCode): string {
+  return ERROR_MESSAGES[code];
+}
+
+/** Thrown by metadata requests; download results carry the same fields instead. */
+export class DownloadError extends Error {
+  readonly code: DownloadErrorCode;
+  // Raw yt-dlp stderr, for logs only
+  readonly stderr?: string;
+
+  constructor(code: DownloadErrorCode, message = describeError(code), stderr?: string) {
+    super(message);
+    this.name = 'DownloadError';
+    this.code = code;
+    this.stderr = stderr;
+  }
+}
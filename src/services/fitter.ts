@@ -0,0 +1,209 @@
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { logger } from '../utils/logger';
+import { CommandResult, runCommand } from '../utils/process';
+
+export type FitStrategy = 'reencode' | 'split';
+
+export const FIT_STRATEGIES: FitStrategy[] = ['reencode', 'split'];
+
+export interface FitResult {
+  success: boolean;
+  // Output files in playback order (a single file when re-encoded)
+  files: string[];
+  error?: string;
+}
+
+export interface SizeFitterConfig {
+  maxFileSizeMB: number;
+  // Seconds an ffmpeg run may take
+  timeout: number;
+}
+
+// Leave room for container overhead and bitrate overshoot
+const SIZE_SAFETY_FACTOR = 0.92;
+const MIN_VIDEO_BITRATE_KBPS = 150;
+const MAX_SPLIT_ATTEMPTS = 3;
+
+export function isFitStrategy(value: string): value is FitStrategy {
+  return (FIT_STRATEGIES as string[]).includes(value);
+}
+
+/**
+ * Makes an oversized video fit the upload limit, either by re-encoding it
+ * to a bitrate computed from its duration or by splitting it into parts
+ * at keyframes.
+ */
+export class SizeFitter {
+  private config: SizeFitterConfig;
+
+  constructor(config: SizeFitterConfig) {
+    this.config = config;
+  }
+
+  private get maxBytes(): number {
+    return this.config.maxFileSizeMB * 1024 * 1024;
+  }
+
+  async fit(filePath: string, strategy: FitStrategy, signal?: AbortSignal): Promise<FitResult> {
+    try {
+      const duration = await this.probeDuration(filePath, signal);
+      if (!duration) {
+        return { success: false, files: [], error: 'Could not determine the video duration' };
+      }
+
+      logger.info({ filePath, strategy, duration }, 'Fitting video to size limit');
+
+      return strategy === 'split'
+        ? await this.split(filePath, duration, signal)
+        : await this.reencode(filePath, duration, signal);
+    } catch (error) {
+      logger.error({ filePath, strategy, error }, 'Failed to fit video');
+      return { success: false, files: [], error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  private async reencode(filePath: string, duration: number, signal?: AbortSignal): Promise<FitResult> {
+    const totalKbps = (this.maxBytes * SIZE_SAFETY_FACTOR * 8) / duration / 1000;
+    const audioKbps = totalKbps > 1000 ? 128 : 64;
+    const videoKbps = Math.floor(totalKbps - audioKbps);
+
+    if (videoKbps < MIN_VIDEO_BITRATE_KBPS) {
+      return {
+        success: false,
+        files: [],
+        error: `The video is too long to fit ${this.config.maxFileSizeMB} MB at a watchable quality`,
+      };
+    }
+
+    const outputPath = path.join(path.dirname(filePath), `fit_${path.basename(filePath, path.extname(filePath))}.mp4`);
+    const result = await runCommand(
+      'ffmpeg',
+      [
+        '-y',
+        '-i',
+        filePath,
+        '-c:v',
+        'libx264',
+        '-preset',
+        'veryfast',
+        '-b:v',
+        `${videoKbps}k`,
+        '-maxrate',
+        `${videoKbps}k`,
+        '-bufsize',
+        `${videoKbps * 2}k`,
+        // Low bitrates look better at a lower resolution
+        '-vf',
+        `scale=-2:'min(${videoKbps < 800 ? 480 : 720},ih)'`,
+        '-pix_fmt',
+        'yuv420p',
+        '-c:a',
+        'aac',
+        '-b:a',
+        `${audioKbps}k`,
+        '-movflags',
+        '+faststart',
+        outputPath,
+      ],
+      { timeoutMs: this.config.timeout * 1000, signal }
+    );
+
+    const failure = this.checkResult(result, 'Re-encoding');
+    if (failure) {
+      return failure;
+    }
+
+    const stats = await fs.stat(outputPath);
+    if (stats.size > this.maxBytes) {
+      return { success: false, files: [], error: 'Re-encoded video is still too large' };
+    }
+
+    await fs.remove(filePath);
+    logger.info({ outputPath, size: stats.size, videoKbps, audioKbps }, 'Video re-encoded to fit');
+    return { success: true, files: [outputPath] };
+  }
+
+  private async split(filePath: string, duration: number, signal?: AbortSignal): Promise<FitResult> {
+    const { size } = await fs.stat(filePath);
+    const dir = path.dirname(filePath);
+    let partCount = Math.ceil(size / (this.maxBytes * SIZE_SAFETY_FACTOR));
+
+    // Keyframe spacing can make a part overshoot; retry with more, shorter parts
+    for (let attempt = 0; attempt < MAX_SPLIT_ATTEMPTS; attempt++) {
+      const partsDir = path.join(dir, `parts_${attempt}`);
+      await fs.ensureDir(partsDir);
+
+      const result = await runCommand(
+        'ffmpeg',
+        [
+          '-y',
+          '-i',
+          filePath,
+          '-map',
+          '0',
+          '-c',
+          'copy',
+          '-f',
+          'segment',
+          '-segment_time',
+          (duration / partCount).toFixed(2),
+          '-reset_timestamps',
+          '1',
+          // The segment muxer doesn't hand a top-level -movflags on to the mp4 muxer of each part
+          '-segment_format_options',
+          'movflags=+faststart',
+          path.join(partsDir, 'part_%03d.mp4'),
+        ],
+        { timeoutMs: this.config.timeout * 1000, signal }
+      );
+
+      const failure = this.checkResult(result, 'Splitting');
+      if (failure) {
+        return failure;
+      }
+
+      const files = (await fs.readdir(partsDir)).sort().map((f) => path.join(partsDir, f));
+      const sizes = await Promise.all(files.map(async (f) => (await fs.stat(f)).size));
+
+      if (sizes.every((partSize) => partSize <= this.maxBytes)) {
+        await fs.remove(filePath);
+        logger.info({ filePath, parts: files.length }, 'Video split to fit');
+        return { success: true, files };
+      }
+
+      await fs.remove(partsDir);
+      partCount = Math.ceil(partCount * 1.5);
+    }
+
+    return { success: false, files: [], error: 'Could not split the video into small enough parts' };
+  }
+
+  private async probeDuration(filePath: string, signal?: AbortSignal): Promise<number | undefined> {
+    const result = await runCommand(
+      'ffprobe',
+      ['-v', 'error', '-show_entries', 'format=duration', '-of', 'default=noprint_wrappers=1:nokey=1', filePath],
+      { timeoutMs: 30 * 1000, signal }
+    );
+
+    const duration = parseFloat(result.stdout.trim());
+    return result.code === 0 && !isNaN(duration) && duration > 0 ? duration : undefined;
+  }
+
+  private checkResult(
+    result: CommandResult,
+    action: string
+  ): FitResult | undefined {
+    if (result.cancelled) {
+      return { success: false, files: [], error: 'Download cancelled' };
+    }
+    if (result.timedOut) {
+      return { success: false, files: [], error: `${action} timeout` };
+    }
+    if (result.code !== 0) {
+      logger.warn({ stderr: result.stderr.slice(-2000) }, `${action} failed`);
+      return { success: false, files: [], error: `${action} failed` };
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,72 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { logger } from '../utils/logger';
+import { runCommand } from '../utils/process';
+
+// A check throws (or rejects) with the reason it failed
+export type HealthCheck = () => Promise<void>;
+
+export interface HealthCheckResult {
+  ok: boolean;
+  error?: string;
+}
+
+export interface HealthReport {
+  ok: boolean;
+  checks: Record<string, HealthCheckResult>;
+}
+
+export interface HealthCheckerConfig {
+  checks: Record<string, HealthCheck>;
+  // Results are reused for this long so frequent probes don't spawn processes each time
+  cacheMs: number;
+}
+
+export async function checkYtDlp(): Promise<void> {
+  const result = await runCommand('yt-dlp', ['--version'], { timeoutMs: 10_000 });
+  if (result.code !== 0) {
+    throw new Error(result.timedOut ? 'yt-dlp --version timed out' : `yt-dlp exited with code ${result.code}`);
+  }
+}
+
+export async function checkWritableDir(dir: string): Promise<void> {
+  await fs.ensureDir(dir);
+  const probePath = path.join(dir, `.healthcheck-${process.pid}`);
+  await fs.writeFile(probePath, '');
+  await fs.remove(probePath);
+}
+
+export class HealthChecker {
+  private config: HealthCheckerConfig;
+  private cached?: { report: HealthReport; checkedAt: number };
+
+  constructor(config: HealthCheckerConfig) {
+    this.config = config;
+  }
+
+  async run(): Promise<HealthReport> {
+    if (this.cached && Date.now() - this.cached.checkedAt < this.config.cacheMs) {
+      return this.cached.report;
+    }
+
+    const entries = await Promise.all(
+      Object.entries(this.config.checks).map(async ([name, check]): Promise<[string, HealthCheckResult]> => {
+        try {
+          await check();
+          return [name, { ok: true }];
+        } catch (error) {
+          return [name, { ok: false, error: error instanceof Error ? error.message : String(error) }];
+        }
+      })
+    );
+
+    const checks = Object.fromEntries(entries);
+    const report = { ok: entries.every(([, result]) => result.ok), checks };
+    if (!report.ok) {
+      logger.warn({ checks }, 'Health check failed');
+    }
+
+    this.cached = { report, checkedAt: Date.now() };
+    return report;
+  }
+}
@@ -0,0 +1,67 @@
+import * as http from 'http';
+import { logger } from '../utils/logger';
+
+export type RouteHandler = (req: http.IncomingMessage, res: http.ServerResponse) => Promise<void> | void;
+
+export interface HttpServerConfig {
+  port: number;
+  host?: string;
+}
+
+/**
+ * Minimal HTTP server for probes and metrics. Routes match on the exact
+ * path, ignoring the query string.
+ */
+export class HttpServer {
+  private config: HttpServerConfig;
+  private server: http.Server;
+  private routes: Map<string, RouteHandler> = new Map();
+
+  constructor(config: HttpServerConfig) {
+    this.config = config;
+    this.server = http.createServer((req, res) => {
+      void this.handle(req, res);
+    });
+  }
+
+  route(path: string, handler: RouteHandler): void {
+    this.routes.set(path, handler);
+  }
+
+  listen(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(this.config.port, this.config.host, () => {
+        this.server.off('error', reject);
+        logger.info({ port: this.config.port, routes: [...this.routes.keys()] }, 'HTTP server listening');
+        resolve();
+      });
+    });
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => {
+      this.server.close(() => resolve());
+    });
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const path = (req.url || '/').split('?')[0];
+    const handler = this.routes.get(path);
+
+    if (!handler) {
+      res.writeHead(404, { 'Content-Type': 'text/plain' }).end('Not found\n');
+      return;
+    }
+
+    try {
+      await handler(req, res);
+    } catch (error) {
+      logger.error({ path, error }, 'HTTP handler failed');
+      if (!res.headersSent) {
+        res.writeHead(500, { 'Content-Type': 'text/plain' });
+      }
+      res.end('Internal error\n');
+    }
+  }
+}
@@ -0,0 +1,165 @@
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { ClipRange } from '../utils/clip';
+import { logger } from '../utils/logger';
+import { JsonStore } from '../utils/store';
+import { getDomain } from '../utils/url';
+import { ArchiveBackend } from './archive';
+import { CachedMedia } from './cache';
+import { MediaMetadata } from './downloader';
+
+export interface LibraryItem {
+  // Short id used by the re-send button
+  id: string;
+  userId: number;
+  url: string;
+  domain: string;
+  title?: string;
+  performer?: string;
+  duration?: number;
+  metadata?: MediaMetadata;
+  clip?: ClipRange;
+  // What was sent, so it can be sent again without downloading
+  media: CachedMedia[];
+  // Archive keys of the stored files; empty when nothing was archived
+  files: string[];
+  createdAt: number;
+}
+
+export type LibraryItemFields = Pick<
+  LibraryItem,
+  'userId' | 'url' | 'title' | 'performer' | 'duration' | 'metadata' | 'clip' | 'media'
+>;
+
+export interface MediaLibraryConfig {
+  fileName: string;
+  // Where finished downloads are kept; without one only the history is recorded
+  archive?: ArchiveBackend;
+  // Oldest items of a user are forgotten beyond this (their archived files stay)
+  maxItemsPerUser: number;
+}
+
+export interface LibraryPage {
+  items: LibraryItem[];
+  total: number;
+}
+
+interface LibraryData {
+  items: Record<string, LibraryItem>;
+}
+
+/**
+ * Every user's sent downloads, newest first, with the file_ids to send them
+ * again and optionally the files themselves archived next to a metadata.json.
+ */
+export class MediaLibrary {
+  private config: MediaLibraryConfig;
+  private store: JsonStore<LibraryData>;
+  // Uploads run one at a time, in the background of the downloads
+  private archiveChain: Promise<void> = Promise.resolve();
+
+  constructor(config: MediaLibraryConfig) {
+    this.config = config;
+    this.store = new JsonStore<LibraryData>(config.fileName, () => ({ items: {} }));
+  }
+
+  async init(): Promise<void> {
+    await this.store.load();
+    logger.info(
+      { items: Object.keys(this.store.data.items).length, archive: this.config.archive?.location ?? 'off' },
+      'Media library loaded'
+    );
+  }
+
+  get(id: string): LibraryItem | undefined {
+    return this.store.data.items[id];
+  }
+
+  /** Records a sent download; see archive for keeping its files. */
+  async add(fields: LibraryItemFields): Promise<LibraryItem | undefined> {
+    if (fields.media.length === 0) {
+      return undefined;
+    }
+
+    const item: LibraryItem = {
+      ...fields,
+      id: uuidv4().slice(0, 8),
+      domain: getDomain(fields.url),
+      files: [],
+      createdAt: Date.now(),
+    };
+    this.store.data.items[item.id] = item;
+    this.trim(item.userId);
+    await this.store.save();
+    return item;
+  }
+
+  /**
+   * Copies an item's files into the archive, when one is configured, after
+   * the uploads queued before them. Never rejects: failures are logged, the
+   * user already has the media. The files may be deleted once it resolves.
+   */
+  archive(item: LibraryItem, filePaths: string[]): Promise<void> {
+    const { archive } = this.config;
+    if (!archive || filePaths.length === 0) {
+      return Promise.resolve();
+    }
+
+    this.archiveChain = this.archiveChain
+      .then(async () => {
+        const files = await this.archiveFiles(archive, item, filePaths);
+        // Trimmed from the history meanwhile: the archived copy stays, unlisted
+        const stored = this.get(item.id);
+        if (stored && files.length > 0) {
+          stored.files = files;
+          await this.store.save();
+        }
+      })
+      .catch((error) => logger.error({ itemId: item.id, error }, 'Failed to archive download'));
+    return this.archiveChain;
+  }
+
+  /** A page of a user's items, newest first, matching the query in the title, site or uploader. */
+  search(userId: number, query: string | undefined, page: number, pageSize: number): LibraryPage {
+    const needle = query?.trim().toLowerCase();
+    const matches = this.listForUser(userId).filter(
+      (item) =>
+        !needle ||
+        [item.title, item.domain, item.metadata?.uploader].some((field) => field?.toLowerCase().includes(needle))
+    );
+    return {
+      items: matches.slice(page * pageSize, (page + 1) * pageSize),
+      total: matches.length,
+    };
+  }
+
+  private listForUser(userId: number): LibraryItem[] {
+    return Object.values(this.store.data.items)
+      .filter((item) => item.userId === userId)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  private trim(userId: number): void {
+    for (const item of this.listForUser(userId).slice(this.config.maxItemsPerUser)) {
+      delete this.store.data.items[item.id];
+    }
+  }
+
+  private async archiveFiles(archive: ArchiveBackend, item: LibraryItem, filePaths: string[]): Promise<string[]> {
+    // e.g. 2024-05/1a2b3c4d/video.mp4, so a month's downloads stay together
+    const prefix = `${new Date(item.createdAt).toISOString().slice(0, 7)}/${item.id}`;
+    const keys: string[] = [];
+    try {
+      for (const filePath of filePaths) {
+        const key = `${prefix}/${path.basename(filePath)}`;
+        await archive.putFile(key, filePath);
+        keys.push(key);
+      }
+      await archive.putJson(`${prefix}/metadata.json`, { ...item, files: keys });
+      logger.info({ itemId: item.id, location: archive.location, files: keys.length }, 'Download archived');
+    } catch (error) {
+      logger.error({ itemId: item.id, location: archive.location, error }, 'Failed to archive download');
+    }
+    return keys;
+  }
+}
@@ -0,0 +1,140 @@
+import { logger } from '../utils/logger';
+import { canonicalizeUrl, getDomain, isShortLink } from '../utils/url';
+
+export interface LinkResolverConfig {
+  // Host names links may point to, subdomains included; "*" allows any site
+  supportedDomains?: string[];
+}
+
+export interface ResolvedLink {
+  // Canonical form of the link, or the link without tracking parameters
+  url: string;
+  // Same for every form of a link to one post, e.g. "youtube:dQw4w9WgXcQ"
+  mediaId?: string;
+  domain: string;
+  supported: boolean;
+}
+
+// Sites yt-dlp handles well enough to offer; SUPPORTED_DOMAINS replaces the list
+const DEFAULT_SUPPORTED_DOMAINS = [
+  'youtube.com',
+  'youtu.be',
+  'youtube-nocookie.com',
+  'tiktok.com',
+  'instagram.com',
+  'twitter.com',
+  'x.com',
+  'fxtwitter.com',
+  'vxtwitter.com',
+  'fixupx.com',
+  'facebook.com',
+  'fb.watch',
+  'vimeo.com',
+  'reddit.com',
+  'redd.it',
+  'twitch.tv',
+  'dailymotion.com',
+  'soundcloud.com',
+  'bandcamp.com',
+  'pinterest.com',
+  'threads.net',
+  'tumblr.com',
+  'streamable.com',
+  'bilibili.com',
+  'vk.com',
+  'vkvideo.ru',
+  'ok.ru',
+  'rutube.ru',
+];
+
+const MAX_REDIRECTS = 5;
+const EXPAND_TIMEOUT_MS = 5000;
+// Expansions are remembered; short links don't change targets
+const MAX_EXPANDED = 1000;
+
+/**
+ * Turns a link from a message into what the downloader gets: short links are
+ * followed to where they lead, known sites get one canonical form per post
+ * and links to sites outside the supported list are flagged before yt-dlp
+ * is ever started for them.
+ */
+export class LinkResolver {
+  private supportedDomains: string[];
+  private expanded: Map<string, string> = new Map();
+
+  constructor(config: LinkResolverConfig = {}) {
+    this.supportedDomains = (config.supportedDomains ?? DEFAULT_SUPPORTED_DOMAINS).map((domain) =>
+      domain.toLowerCase().replace(/^\*?\./, '')
+    );
+  }
+
+  get allowsAnyDomain(): boolean {
+    return this.supportedDomains.includes('*');
+  }
+
+  /** The supported domains as configured, for messages; empty when any site is allowed. */
+  listSupportedDomains(): string[] {
+    return this.allowsAnyDomain ? [] : [...this.supportedDomains];
+  }
+
+  async resolve(url: string): Promise<ResolvedLink> {
+    const target = isShortLink(url) ? await this.expand(url) : url;
+    const canonical = canonicalizeUrl(target);
+    const domain = getDomain(canonical.url);
+
+    return {
+      url: canonical.url,
+      mediaId: canonical.mediaId,
+      domain,
+      supported: this.isSupported(domain),
+    };
+  }
+
+  isSupported(domain: string): boolean {
+    return (
+      this.allowsAnyDomain ||
+      this.supportedDomains.some((supported) => domain === supported || domain.endsWith(`.${supported}`))
+    );
+  }
+
+  /**
+   * Follows the redirects of a short link. Only redirects to further short
+   * links are requested, so a link can't make the bot fetch arbitrary
+   * pages; on any failure the link stays as it was.
+   */
+  private async expand(url: string): Promise<string> {
+    const known = this.expanded.get(url);
+    if (known) {
+      return known;
+    }
+
+    let current = url;
+    try {
+      for (let hop = 0; hop < MAX_REDIRECTS && isShortLink(current); hop++) {
+        const response = await fetch(current, {
+          method: 'HEAD',
+          redirect: 'manual',
+          signal: AbortSignal.timeout(EXPAND_TIMEOUT_MS),
+        });
+        const location = response.headers.get('location');
+        if (response.status < 300 || response.status >= 400 || !location) {
+          break;
+        }
+        current = new URL(location, current).toString();
+      }
+    } catch (error) {
+      logger.warn({ url, error }, 'Failed to expand short link');
+      return url;
+    }
+
+    if (current !== url) {
+      logger.debug({ url, expanded: current }, 'Expanded short link');
+      if (this.expanded.size >= MAX_EXPANDED) {
+        // Maps iterate in insertion order: drop the oldest
+        this.expanded.delete(this.expanded.keys().next().value!);
+      }
+      this.expanded.set(url, current);
+    }
+    return current;
+  }
+}
@@ -0,0 +1,59 @@
+import { Locale } from '../i18n';
+import { logger } from '../utils/logger';
+import { JsonStore } from '../utils/store';
+
+// 'ask' shows the quality picker for every link, 'auto' takes the best quality that fits
+export type QualityPreference = 'ask' | 'auto' | number;
+
+export interface UserPreference {
+  quality?: QualityPreference;
+  // Overrides the language Telegram reports for the user
+  language?: Locale;
+}
+
+export interface UserPreferencesConfig {
+  fileName: string;
+  defaultQuality: QualityPreference;
+}
+
+interface PreferencesData {
+  users: Record<string, UserPreference>;
+}
+
+export function parseQualityPreference(value: string): QualityPreference | undefined {
+  const normalized = value.trim().toLowerCase();
+  if (normalized === 'ask' || normalized === 'auto') {
+    return normalized;
+  }
+
+  const height = parseInt(normalized.replace(/p$/, ''), 10);
+  return isNaN(height) || height <= 0 ? undefined : height;
+}
+
+export class UserPreferences {
+  private config: UserPreferencesConfig;
+  private store: JsonStore<PreferencesData>;
+
+  constructor(config: UserPreferencesConfig) {
+    this.config = config;
+    this.store = new JsonStore<PreferencesData>(config.fileName, () => ({ users: {} }));
+  }
+
+  async init(): Promise<void> {
+    await this.store.load();
+    logger.info({ users: Object.keys(this.store.data.users).length }, 'User preferences loaded');
+  }
+
+  get(userId: number): UserPreference {
+    return this.store.data.users[userId] || {};
+  }
+
+  getQuality(userId: number): QualityPreference {
+    return this.get(userId).quality ?? this.config.defaultQuality;
+  }
+
+  async update(userId: number, changes: Partial<UserPreference>): Promise<void> {
+    this.store.data.users[userId] = { ...this.get(userId), ...changes };
+    await this.store.save();
+  }
+}
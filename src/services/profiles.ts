@@ -0,0 +1,136 @@
+import * as fs from 'fs-extra';
+import { logger } from '../utils/logger';
+
+/**
+ * How yt-dlp is driven for one group of sites. Profiles from the config file
+ * replace built-in profiles with the same name and are matched first.
+ */
+export interface SiteProfile {
+  name: string;
+  // Host names the profile applies to, subdomains included; the default profile has none
+  domains: string[];
+  // yt-dlp -f selector; "{height}" becomes a height filter like "[height<=720]", or nothing
+  format: string;
+  // Container the video and audio streams are merged into
+  mergeFormat?: string;
+  remuxVideo?: string;
+  // Passed to --postprocessor-args, e.g. to force H.264 for iOS
+  postprocessorArgs?: string;
+  // Heights tried in order when a download doesn't fit the size limit
+  ladder: number[];
+  // Appended to every yt-dlp call for these sites (headers, extractor args, ...)
+  extraArgs?: string[];
+}
+
+export interface SiteProfilesConfig {
+  // JSON file with an array of profiles
+  filePath?: string;
+}
+
+// Only for merging the streams; a bare "ffmpeg:" would also reach the thumbnail converter
+const IOS_COMPATIBLE_ARGS = 'Merger+ffmpeg:-c:v libx264 -c:a aac -pix_fmt yuv420p -movflags +faststart';
+
+export const DEFAULT_PROFILE: SiteProfile = {
+  name: 'default',
+  domains: [],
+  format: 'bestvideo{height}+bestaudio/best{height}/best',
+  mergeFormat: 'mp4',
+  remuxVideo: 'mp4',
+  ladder: [480],
+};
+
+const BUILT_IN_PROFILES: SiteProfile[] = [
+  {
+    name: 'instagram',
+    domains: ['instagram.com'],
+    // Combined mp4/m4a formats, re-encoded to H.264/AAC so videos play on iOS
+    format: 'bestvideo{height}[ext=mp4]+bestaudio[ext=m4a]/best{height}[ext=mp4]/best',
+    mergeFormat: 'mp4',
+    postprocessorArgs: IOS_COMPATIBLE_ARGS,
+    ladder: [480],
+  },
+];
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+function validateProfile(value: unknown): SiteProfile | undefined {
+  if (typeof value !== 'object' || value === null) {
+    return undefined;
+  }
+
+  const profile = value as Partial<SiteProfile>;
+  const valid =
+    typeof profile.name === 'string' &&
+    isStringArray(profile.domains) &&
+    typeof profile.format === 'string' &&
+    Array.isArray(profile.ladder) &&
+    profile.ladder.every((height) => Number.isInteger(height) && height > 0) &&
+    (profile.mergeFormat === undefined || typeof profile.mergeFormat === 'string') &&
+    (profile.remuxVideo === undefined || typeof profile.remuxVideo === 'string') &&
+    (profile.postprocessorArgs === undefined || typeof profile.postprocessorArgs === 'string') &&
+    (profile.extraArgs === undefined || isStringArray(profile.extraArgs));
+
+  return valid ? (profile as SiteProfile) : undefined;
+}
+
+export class SiteProfiles {
+  private config: SiteProfilesConfig;
+  private profiles: SiteProfile[] = BUILT_IN_PROFILES;
+  private defaultProfile: SiteProfile = DEFAULT_PROFILE;
+
+  constructor(config: SiteProfilesConfig = {}) {
+    this.config = config;
+  }
+
+  async init(): Promise<void> {
+    if (this.config.filePath) {
+      const loaded = await this.loadFile(this.config.filePath);
+      const names = new Set(loaded.map((profile) => profile.name));
+
+      this.profiles = [
+        ...loaded.filter((profile) => profile.name !== 'default'),
+        ...BUILT_IN_PROFILES.filter((profile) => !names.has(profile.name)),
+      ];
+      this.defaultProfile = loaded.find((profile) => profile.name === 'default') || DEFAULT_PROFILE;
+    }
+
+    logger.info(
+      { profiles: [...this.profiles.map((profile) => profile.name), this.defaultProfile.name] },
+      'Site profiles loaded'
+    );
+  }
+
+  match(url: string): SiteProfile {
+    let hostname: string;
+    try {
+      hostname = new URL(url).hostname.toLowerCase();
+    } catch {
+      return this.defaultProfile;
+    }
+
+    const profile = this.profiles.find((candidate) =>
+      candidate.domains.some((domain) => hostname === domain || hostname.endsWith(`.${domain}`))
+    );
+    return profile || this.defaultProfile;
+  }
+
+  private async loadFile(filePath: string): Promise<SiteProfile[]> {
+    const data: unknown = await fs.readJson(filePath);
+    if (!Array.isArray(data)) {
+      throw new Error(`Site profiles file ${filePath} must contain an array of profiles`);
+    }
+
+    const profiles: SiteProfile[] = [];
+    data.forEach((value, index) => {
+      const profile = validateProfile(value);
+      if (profile) {
+        profiles.push(profile);
+      } else {
+        logger.warn({ filePath, index }, 'Skipping invalid site profile');
+      }
+    });
+    return profiles;
+  }
+}
@@ -0,0 +1,221 @@
+import { logger } from '../utils/logger';
+
+export interface QueueJob {
+  id: string;
+  userId: number;
+  run: () => Promise<void>;
+  // Called with the 1-based position whenever it changes while the job waits
+  onPositionChange?: (position: number) => void;
+}
+
+export interface JobQueueConfig {
+  concurrency: number;
+  maxPendingPerUser: number;
+}
+
+export class QueueFullError extends Error {
+  constructor(limit: number) {
+    super(`Queue limit of ${limit} pending jobs reached`);
+    this.name = 'QueueFullError';
+  }
+}
+
+/**
+ * Runs jobs with a global concurrency limit. Every user has a FIFO queue and
+ * at most one running job; users are served round-robin so one user's batch
+ * of links can't starve everybody else. Short tasks (see runTask) share the
+ * same slots.
+ */
+export class JobQueue {
+  private config: JobQueueConfig;
+  private pending: Map<number, QueueJob[]> = new Map();
+  // Round-robin order of users with pending jobs
+  private userOrder: number[] = [];
+  private activeUsers: Set<number> = new Set();
+  private lastPositions: Map<string, number> = new Map();
+  // Started in order, ahead of pending jobs
+  private waitingTasks: Array<() => void> = [];
+  private activeTasks = 0;
+
+  constructor(config: JobQueueConfig) {
+    this.config = config;
+  }
+
+  get activeCount(): number {
+    return this.activeUsers.size + this.activeTasks;
+  }
+
+  get pendingCount(): number {
+    let count = 0;
+    for (const jobs of this.pending.values()) {
+      count += jobs.length;
+    }
+    return count;
+  }
+
+  /**
+   * Adds a job and returns its position (0 when it started immediately).
+   * Throws QueueFullError when the user has too many pending jobs.
+   */
+  enqueue(job: QueueJob): number {
+    const userJobs = this.pending.get(job.userId) || [];
+    if (userJobs.length >= this.config.maxPendingPerUser) {
+      throw new QueueFullError(this.config.maxPendingPerUser);
+    }
+
+    userJobs.push(job);
+    this.pending.set(job.userId, userJobs);
+    if (!this.userOrder.includes(job.userId)) {
+      this.userOrder.push(job.userId);
+    }
+
+    logger.debug({ jobId: job.id, userId: job.userId }, 'Job queued');
+
+    this.schedule();
+    return this.getPositions().get(job.id) ?? 0;
+  }
+
+  /**
+   * Runs a short yt-dlp call that isn't a job of its own (probing formats,
+   * listing a playlist) in a free slot and resolves with its result.
+   */
+  async runTask<T>(task: () => Promise<T>): Promise<T> {
+    await new Promise<void>((resolve) => {
+      this.waitingTasks.push(resolve);
+      this.schedule();
+    });
+    try {
+      return await task();
+    } finally {
+      this.activeTasks--;
+      this.schedule();
+    }
+  }
+
+  /** Drops the user's pending jobs that match the predicate and returns them. */
+  remove(userId: number, predicate: (job: QueueJob) => boolean): QueueJob[] {
+    const userJobs = this.pending.get(userId);
+    if (!userJobs) {
+      return [];
+    }
+
+    const removed = userJobs.filter(predicate);
+    const remaining = userJobs.filter((job) => !predicate(job));
+    if (remaining.length > 0) {
+      this.pending.set(userId, remaining);
+    } else {
+      this.pending.delete(userId);
+      this.userOrder = this.userOrder.filter((id) => id !== userId);
+    }
+
+    for (const job of removed) {
+      this.lastPositions.delete(job.id);
+    }
+
+    logger.debug({ userId, removed: removed.length }, 'Jobs removed from queue');
+    this.notifyPositions();
+    return removed;
+  }
+
+  private schedule(): void {
+    while (this.activeCount < this.config.concurrency) {
+      const startTask = this.waitingTasks.shift();
+      if (startTask) {
+        this.activeTasks++;
+        startTask();
+        continue;
+      }
+
+      const job = this.takeNext();
+      if (!job) {
+        break;
+      }
+      this.start(job);
+    }
+
+    this.notifyPositions();
+  }
+
+  private takeNext(): QueueJob | undefined {
+    const userId = this.userOrder.find((id) => !this.activeUsers.has(id));
+    if (userId === undefined) {
+      return undefined;
+    }
+
+    const userJobs = this.pending.get(userId)!;
+    const job = userJobs.shift()!;
+
+    // Move the user to the back of the rotation
+    this.userOrder = this.userOrder.filter((id) => id !== userId);
+    if (userJobs.length > 0) {
+      this.userOrder.push(userId);
+    } else {
+      this.pending.delete(userId);
+    }
+
+    this.lastPositions.delete(job.id);
+    return job;
+  }
+
+  private start(job: QueueJob): void {
+    this.activeUsers.add(job.userId);
+    logger.debug({ jobId: job.id, userId: job.userId, active: this.activeUsers.size }, 'Job started');
+
+    job
+      .run()
+      .catch((error) => {
+        logger.error({ jobId: job.id, userId: job.userId, error }, 'Job failed');
+      })
+      .finally(() => {
+        this.activeUsers.delete(job.userId);
+        this.schedule();
+      });
+  }
+
+  /**
+   * Simulates the round-robin order: each round takes the head of every
+   * user's queue, users with a running job wait for a free slot first.
+   */
+  private getPositions(): Map<string, number> {
+    const positions = new Map<string, number>();
+    const queues = this.userOrder.map((userId) => [...(this.pending.get(userId) || [])]);
+    let position = 0;
+
+    while (queues.some((jobs) => jobs.length > 0)) {
+      for (const jobs of queues) {
+        const job = jobs.shift();
+        if (job) {
+          positions.set(job.id, ++position);
+        }
+      }
+    }
+
+    return positions;
+  }
+
+  private notifyPositions(): void {
+    for (const [jobId, position] of this.getPositions()) {
+      if (this.lastPositions.get(jobId) === position) {
+        continue;
+      }
+      this.lastPositions.set(jobId, position);
+
+      const job = this.findPending(jobId);
+      try {
+        job?.onPositionChange?.(position);
+      } catch (error) {
+        logger.warn({ jobId, error }, 'Position callback failed');
+      }
+    }
+  }
+
+  private findPending(jobId: string): QueueJob | undefined {
+    for (const jobs of this.pending.values()) {
+      const job = jobs.find((j) => j.id === jobId);
+      if (job) {
+        return job;
+      }
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,59 @@
+export interface RateLimiterConfig {
+  // Requests a user can make in a quick burst; at least 1
+  burst: number;
+  // Sustained rate the bucket refills at; 0 turns the limit off
+  perMinute: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // How long until the next request would be allowed
+  retryAfterMs: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Per-user token bucket: every request takes a token, tokens refill
+ * continuously up to the burst size.
+ */
+export class RateLimiter {
+  private config: RateLimiterConfig;
+  private buckets: Map<number, Bucket> = new Map();
+
+  constructor(config: RateLimiterConfig) {
+    // A bucket that holds no token would deny every request
+    this.config = { ...config, burst: config.burst >= 1 ? config.burst : 1 };
+  }
+
+  consume(userId: number): RateLimitResult {
+    // Nothing would ever refill the bucket
+    if (!(this.config.perMinute > 0)) {
+      return { allowed: true, retryAfterMs: 0 };
+    }
+
+    const bucket = this.refill(userId);
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return { allowed: true, retryAfterMs: 0 };
+    }
+
+    const msPerToken = 60_000 / this.config.perMinute;
+    return { allowed: false, retryAfterMs: Math.ceil((1 - bucket.tokens) * msPerToken) };
+  }
+
+  private refill(userId: number): Bucket {
+    const now = Date.now();
+    const bucket = this.buckets.get(userId) || { tokens: this.config.burst, updatedAt: now };
+
+    const refilled = ((now - bucket.updatedAt) / 60_000) * this.config.perMinute;
+    bucket.tokens = Math.min(this.config.burst, bucket.tokens + refilled);
+    bucket.updatedAt = now;
+    this.buckets.set(userId, bucket);
+    return bucket;
+  }
+}
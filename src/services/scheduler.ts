@@ -0,0 +1,150 @@
+import { logger } from '../utils/logger';
+import { mediaKey } from '../utils/url';
+import { Downloader, PlaylistEntry } from './downloader';
+import { JobQueue } from './queue';
+import { Subscription, SubscriptionFilters, SubscriptionStore } from './subscriptions';
+
+// 'postponed' leaves the entry for the next check, e.g. while the subscriber's quota is used up;
+// 'retry' does too, for a few checks, e.g. while the site is down
+export type DeliveryOutcome = 'sent' | 'failed' | 'postponed' | 'retry';
+
+export interface SubscriptionSchedulerConfig {
+  store: SubscriptionStore;
+  downloader: Downloader;
+  // Listings take one of its slots like any yt-dlp call
+  queue: JobQueue;
+  intervalMinutes: number;
+  // Newest entries looked at per check; anything older that was missed stays missed
+  checkItems: number;
+  deliver: (subscription: Subscription, entry: PlaylistEntry) => Promise<DeliveryOutcome>;
+}
+
+// The first check runs shortly after start rather than a whole interval later
+const FIRST_CHECK_DELAY_MS = 60 * 1000;
+// Checks an entry is retried on before it's given up on as failed
+const MAX_ENTRY_RETRIES = 3;
+
+/** What identifies an entry across listings: the site's id, else the media behind its link. */
+export function entryKey(entry: PlaylistEntry): string {
+  return entry.id ?? mediaKey(entry.url);
+}
+
+/** Why a subscription's filters skip an entry; undefined when it passes. */
+export function filterEntry(filters: SubscriptionFilters, entry: PlaylistEntry): 'duration' | 'keyword' | undefined {
+  // Listings don't always know the duration; such entries pass and the size limit still applies
+  if (filters.maxDuration !== undefined && entry.duration !== undefined && entry.duration > filters.maxDuration) {
+    return 'duration';
+  }
+  if (filters.keyword && !(entry.title ?? '').toLowerCase().includes(filters.keyword.toLowerCase())) {
+    return 'keyword';
+  }
+  return undefined;
+}
+
+/**
+ * Periodically lists the newest entries of every subscription with a flat
+ * listing (no downloads) and hands the ones not seen before to `deliver`,
+ * oldest first. Checks never overlap; a slow one delays the next.
+ */
+export class SubscriptionScheduler {
+  private config: SubscriptionSchedulerConfig;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+  // Retries so far per subscription and entry; kept in memory only
+  private retries: Map<string, number> = new Map();
+
+  constructor(config: SubscriptionSchedulerConfig) {
+    this.config = config;
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    logger.info(
+      { intervalMinutes: this.config.intervalMinutes, subscriptions: this.config.store.list().length },
+      'Subscription checks scheduled'
+    );
+    this.schedule(FIRST_CHECK_DELAY_MS);
+  }
+
+  stop(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  /** Checks every subscription once; also what the timer runs. */
+  async checkAll(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    try {
+      for (const subscription of this.config.store.list()) {
+        await this.check(subscription).catch((error) =>
+          logger.error({ subscriptionId: subscription.id, error }, 'Subscription check failed')
+        );
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    this.timer = setTimeout(() => {
+      void this.checkAll().finally(() => {
+        if (this.timer) {
+          this.schedule(this.config.intervalMinutes * 60 * 1000);
+        }
+      });
+    }, delayMs);
+    this.timer.unref();
+  }
+
+  private async check(subscription: Subscription): Promise<void> {
+    const { store, downloader, queue, checkItems } = this.config;
+    const probe = await queue.runTask(() => downloader.listPlaylist(subscription.url, `1:${checkItems}`, checkItems));
+    if (!probe.success) {
+      logger.warn(
+        { subscriptionId: subscription.id, url: subscription.url, errorCode: probe.errorCode },
+        'Failed to list subscription'
+      );
+      await store.recordCheck(subscription.id, probe.errorCode ?? 'unknown');
+      return;
+    }
+
+    // Listings put the newest entry first
+    const fresh = probe.entries.filter((entry) => !subscription.seenIds.includes(entryKey(entry))).reverse();
+    logger.debug({ subscriptionId: subscription.id, fresh: fresh.length }, 'Subscription checked');
+
+    for (const entry of fresh) {
+      // Unsubscribed while earlier entries were delivered
+      if (!store.get(subscription.id)) {
+        return;
+      }
+
+      const skipped = filterEntry(subscription.filters, entry);
+      if (skipped) {
+        logger.debug({ subscriptionId: subscription.id, url: entry.url, skipped }, 'Entry filtered out');
+      } else {
+        const outcome = await this.config.deliver(subscription, entry);
+        const retryKey = `${subscription.id} ${entryKey(entry)}`;
+        if (outcome === 'retry') {
+          const retries = (this.retries.get(retryKey) ?? 0) + 1;
+          if (retries <= MAX_ENTRY_RETRIES) {
+            this.retries.set(retryKey, retries);
+            break;
+          }
+          logger.warn({ subscriptionId: subscription.id, url: entry.url, retries }, 'Giving up on subscription entry');
+        }
+        this.retries.delete(retryKey);
+        if (outcome === 'postponed') {
+          break;
+        }
+      }
+      await store.markSeen(subscription.id, entryKey(entry));
+    }
+
+    await store.recordCheck(subscription.id);
+  }
+}
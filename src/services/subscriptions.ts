@@ -0,0 +1,196 @@
+import { v4 as uuidv4 } from 'uuid';
+import { parseTimestamp } from '../utils/clip';
+import { logger } from '../utils/logger';
+import { JsonStore } from '../utils/store';
+import { DownloadErrorCode } from './errors';
+
+export interface SubscriptionFilters {
+  // Seconds; longer entries are skipped
+  maxDuration?: number;
+  // Entries whose title doesn't contain it (ignoring case) are skipped
+  keyword?: string;
+}
+
+export interface Subscription {
+  // Short id shown in /subscriptions and used by /unsubscribe
+  id: string;
+  chatId: number;
+  // Who subscribed; deliveries count against their usage and quota
+  userId: number;
+  // Channel, account or playlist link
+  url: string;
+  title?: string;
+  filters: SubscriptionFilters;
+  // Entries already delivered or skipped, newest last
+  seenIds: string[];
+  createdAt: number;
+  lastCheckedAt?: number;
+  // Checks in a row that couldn't list the entries
+  failures: number;
+  lastErrorCode?: DownloadErrorCode;
+}
+
+export interface SubscriptionStoreConfig {
+  fileName: string;
+  maxPerChat: number;
+}
+
+export class SubscriptionLimitError extends Error {
+  readonly limit: number;
+
+  constructor(limit: number) {
+    super(`A chat can have at most ${limit} subscriptions`);
+    this.name = 'SubscriptionLimitError';
+    this.limit = limit;
+  }
+}
+
+interface SubscriptionsData {
+  subscriptions: Record<string, Subscription>;
+}
+
+// Enough to recognise everything a listing of the newest entries returns
+const MAX_SEEN_IDS = 200;
+
+/**
+ * Filters from /subscribe arguments: "max=10:00" skips longer entries and
+ * "keyword=recipe" entries without the word in their title. Returns
+ * undefined for an argument it doesn't understand.
+ */
+export function parseSubscriptionFilters(args: string[]): SubscriptionFilters | undefined {
+  const filters: SubscriptionFilters = {};
+  for (const arg of args) {
+    const match = arg.match(/^(\w+)=(.+)$/);
+    const name = match?.[1].toLowerCase();
+    if (!match || (name !== 'max' && name !== 'keyword')) {
+      return undefined;
+    }
+
+    if (name === 'keyword') {
+      filters.keyword = match[2];
+      continue;
+    }
+    filters.maxDuration = parseTimestamp(match[2]);
+    if (!filters.maxDuration) {
+      return undefined;
+    }
+  }
+  return filters;
+}
+
+/**
+ * Channels and accounts chats follow, with the entries each has already
+ * seen so that only new posts are delivered.
+ */
+export class SubscriptionStore {
+  private config: SubscriptionStoreConfig;
+  private store: JsonStore<SubscriptionsData>;
+
+  constructor(config: SubscriptionStoreConfig) {
+    this.config = config;
+    this.store = new JsonStore<SubscriptionsData>(config.fileName, () => ({ subscriptions: {} }));
+  }
+
+  async init(): Promise<void> {
+    await this.store.load();
+    logger.info({ subscriptions: this.list().length }, 'Subscriptions loaded');
+  }
+
+  list(): Subscription[] {
+    return Object.values(this.store.data.subscriptions).sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  listForChat(chatId: number): Subscription[] {
+    return this.list().filter((subscription) => subscription.chatId === chatId);
+  }
+
+  get(id: string): Subscription | undefined {
+    return this.store.data.subscriptions[id];
+  }
+
+  /** Finds a chat's subscription by its id or its link. */
+  find(chatId: number, idOrUrl: string): Subscription | undefined {
+    return this.listForChat(chatId).find((subscription) => subscription.id === idOrUrl || subscription.url === idOrUrl);
+  }
+
+  /**
+   * Adds a subscription; the entries listed right now count as seen, so only
+   * posts published from here on are delivered. Throws
+   * SubscriptionLimitError when the chat has no room left.
+   */
+  async add(
+    fields: Pick<Subscription, 'chatId' | 'userId' | 'url' | 'title' | 'filters' | 'seenIds'>
+  ): Promise<Subscription> {
+    const existing = this.listForChat(fields.chatId);
+    const duplicate = existing.find((subscription) => subscription.url === fields.url);
+    if (!duplicate && existing.length >= this.config.maxPerChat) {
+      throw new SubscriptionLimitError(this.config.maxPerChat);
+    }
+
+    // Subscribing again to the same link updates its filters
+    const subscription: Subscription = {
+      ...fields,
+      id: duplicate?.id ?? uuidv4().slice(0, 8),
+      seenIds: duplicate ? duplicate.seenIds : fields.seenIds.slice(-MAX_SEEN_IDS),
+      createdAt: duplicate?.createdAt ?? Date.now(),
+      lastCheckedAt: Date.now(),
+      failures: 0,
+    };
+    this.store.data.subscriptions[subscription.id] = subscription;
+    await this.store.save();
+    return subscription;
+  }
+
+  async remove(id: string): Promise<boolean> {
+    if (!this.store.data.subscriptions[id]) {
+      return false;
+    }
+    delete this.store.data.subscriptions[id];
+    await this.store.save();
+    return true;
+  }
+
+  /** Removes every subscription of a chat, e.g. after the bot was removed from it. */
+  async removeChat(chatId: number): Promise<number> {
+    const removed = this.listForChat(chatId);
+    for (const subscription of removed) {
+      delete this.store.data.subscriptions[subscription.id];
+    }
+    if (removed.length > 0) {
+      await this.store.save();
+    }
+    return removed.length;
+  }
+
+  /** Removes every subscription a user made, e.g. after their access was revoked. */
+  async removeUser(userId: number): Promise<number> {
+    const removed = this.list().filter((subscription) => subscription.userId === userId);
+    for (const subscription of removed) {
+      delete this.store.data.subscriptions[subscription.id];
+    }
+    if (removed.length > 0) {
+      await this.store.save();
+    }
+    return removed.length;
+  }
+
+  async markSeen(id: string, entryId: string): Promise<void> {
+    const subscription = this.get(id);
+    if (!subscription || subscription.seenIds.includes(entryId)) {
+      return;
+    }
+    subscription.seenIds = [...subscription.seenIds, entryId].slice(-MAX_SEEN_IDS);
+    await this.store.save();
+  }
+
+  async recordCheck(id: string, errorCode?: DownloadErrorCode): Promise<void> {
+    const subscription = this.get(id);
+    if (!subscription) {
+      return;
+    }
+    subscription.lastCheckedAt = Date.now();
+    subscription.failures = errorCode ? subscription.failures + 1 : 0;
+    subscription.lastErrorCode = errorCode;
+    await this.store.save();
+  }
+}
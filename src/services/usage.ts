@@ -0,0 +1,174 @@
+import { logger } from '../utils/logger';
+import { JsonStore } from '../utils/store';
+
+// 'cached' jobs were answered with a stored file_id and downloaded nothing
+export type UsageOutcome = 'success' | 'cached' | 'failed' | 'cancelled';
+
+export interface UsageRecord {
+  userId: number;
+  domain: string;
+  bytes: number;
+  durationMs: number;
+  outcome: UsageOutcome;
+  at: number;
+}
+
+/** Per-user limits; 0 means unlimited. */
+export interface UsageLimits {
+  dailyCount: number;
+  dailyMB: number;
+  monthlyCount: number;
+  monthlyMB: number;
+}
+
+export interface UsageLedgerConfig {
+  fileName: string;
+  // Older records are dropped; must cover at least a month for monthly limits
+  retentionDays: number;
+  limits: UsageLimits;
+}
+
+export interface UsageSummary {
+  jobs: number;
+  succeeded: number;
+  failed: number;
+  bytes: number;
+}
+
+export interface DomainStats {
+  domain: string;
+  jobs: number;
+  failed: number;
+}
+
+export interface QuotaExceeded {
+  period: 'daily' | 'monthly';
+  unit: 'count' | 'mb';
+  limit: number;
+}
+
+export interface QuotaCheck {
+  allowed: boolean;
+  // Which limit was hit, for the bot to describe in the user's language
+  exceeded?: QuotaExceeded;
+}
+
+interface UsageData {
+  records: UsageRecord[];
+}
+
+function startOfDay(now: Date): number {
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+}
+
+function startOfMonth(now: Date): number {
+  return new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+}
+
+function summarize(records: UsageRecord[]): UsageSummary {
+  const summary: UsageSummary = { jobs: 0, succeeded: 0, failed: 0, bytes: 0 };
+  for (const record of records) {
+    summary.jobs++;
+    summary.bytes += record.bytes;
+    if (record.outcome === 'success' || record.outcome === 'cached') {
+      summary.succeeded++;
+    } else if (record.outcome === 'failed') {
+      summary.failed++;
+    }
+  }
+  return summary;
+}
+
+/**
+ * Records every finished job and enforces per-user daily and monthly limits.
+ * Only delivered jobs count against the limits; failures and cancellations
+ * are kept for the stats.
+ */
+export class UsageLedger {
+  private config: UsageLedgerConfig;
+  private store: JsonStore<UsageData>;
+
+  constructor(config: UsageLedgerConfig) {
+    this.config = config;
+    this.store = new JsonStore<UsageData>(config.fileName, () => ({ records: [] }));
+  }
+
+  async init(): Promise<void> {
+    await this.store.load();
+    this.prune();
+    logger.info({ records: this.store.data.records.length, limits: this.config.limits }, 'Usage ledger loaded');
+  }
+
+  async record(record: Omit<UsageRecord, 'at'>): Promise<void> {
+    this.store.data.records.push({ ...record, at: Date.now() });
+    this.prune();
+    await this.store.save();
+  }
+
+  checkQuota(userId: number): QuotaCheck {
+    const { limits } = this.config;
+    const now = new Date();
+    const today = this.getSummary(userId, startOfDay(now));
+    const month = this.getSummary(userId, startOfMonth(now));
+    const mb = (bytes: number) => bytes / (1024 * 1024);
+
+    if (limits.dailyCount > 0 && today.succeeded >= limits.dailyCount) {
+      return { allowed: false, exceeded: { period: 'daily', unit: 'count', limit: limits.dailyCount } };
+    }
+    if (limits.dailyMB > 0 && mb(today.bytes) >= limits.dailyMB) {
+      return { allowed: false, exceeded: { period: 'daily', unit: 'mb', limit: limits.dailyMB } };
+    }
+    if (limits.monthlyCount > 0 && month.succeeded >= limits.monthlyCount) {
+      return { allowed: false, exceeded: { period: 'monthly', unit: 'count', limit: limits.monthlyCount } };
+    }
+    if (limits.monthlyMB > 0 && mb(month.bytes) >= limits.monthlyMB) {
+      return { allowed: false, exceeded: { period: 'monthly', unit: 'mb', limit: limits.monthlyMB } };
+    }
+    return { allowed: true };
+  }
+
+  getLimits(): UsageLimits {
+    return this.config.limits;
+  }
+
+  getUserStats(userId: number): { today: UsageSummary; month: UsageSummary } {
+    const now = new Date();
+    return {
+      today: this.getSummary(userId, startOfDay(now)),
+      month: this.getSummary(userId, startOfMonth(now)),
+    };
+  }
+
+  /** Everyone's usage since the start of the month. */
+  getGlobalStats(topDomains = 5): { month: UsageSummary; users: number; domains: DomainStats[] } {
+    const records = this.store.data.records.filter((record) => record.at >= startOfMonth(new Date()));
+    const domains = new Map<string, DomainStats>();
+
+    for (const record of records) {
+      const stats = domains.get(record.domain) || { domain: record.domain, jobs: 0, failed: 0 };
+      stats.jobs++;
+      if (record.outcome === 'failed') {
+        stats.failed++;
+      }
+      domains.set(record.domain, stats);
+    }
+
+    return {
+      month: summarize(records),
+      users: new Set(records.map((record) => record.userId)).size,
+      domains: [...domains.values()].sort((a, b) => b.jobs - a.jobs).slice(0, topDomains),
+    };
+  }
+
+  private getSummary(userId: number, since: number): UsageSummary {
+    return summarize(this.store.data.records.filter((record) => record.userId === userId && record.at >= since));
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - this.config.retentionDays * 24 * 60 * 60 * 1000;
+    const records = this.store.data.records;
+    if (records.length > 0 && records[0].at < cutoff) {
+      this.store.data.records = records.filter((record) => record.at >= cutoff);
+    }
+  }
+}
@@ -0,0 +1,185 @@
+import { formatDuration } from './progress';
+import { extractUrls } from './url';
+
+export interface ClipRange {
+  // Seconds from the start of the video
+  start: number;
+  // Unset: to the end of the video
+  end?: number;
+}
+
+// A link from a message, with the part of it to download
+export interface LinkRequest {
+  url: string;
+  clip?: ClipRange;
+}
+
+export class ClipRangeError extends Error {
+  // The range as the user wrote it
+  readonly range: string;
+
+  constructor(range: string) {
+    super(`Invalid clip range: ${range}`);
+    this.name = 'ClipRangeError';
+    this.range = range;
+  }
+}
+
+// "80", "1:20", "1:02:03", optionally with fractions of a second
+const CLOCK_PATTERN = /^(?:(\d+):)?(?:(\d+):)?(\d+(?:\.\d+)?)$/;
+// YouTube's t= values: "80", "80s", "1m20s", "1h2m3s"
+const YOUTUBE_TIME_PATTERN = /^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s?)?$/;
+// Other sites use t= for unrelated things, e.g. share tokens on X
+const START_PARAMETER_HOSTS = /(^|\.)(youtube\.com|youtu\.be)$/;
+// Phones turn "-" into a dash
+const RANGE_SEPARATOR = /[-–—]/;
+
+/** Seconds for "1:20" style timestamps; undefined when it isn't one. */
+export function parseTimestamp(value: string): number | undefined {
+  const match = value.match(CLOCK_PATTERN);
+  if (!match) {
+    return undefined;
+  }
+
+  const [, first, second, last] = match;
+  const hours = second !== undefined ? Number(first) : 0;
+  const minutes = second !== undefined ? Number(second) : Number(first ?? 0);
+  const seconds = Number(last);
+  // Only the leading unit may exceed 59
+  if ((first !== undefined && seconds >= 60) || (second !== undefined && minutes >= 60)) {
+    return undefined;
+  }
+  return hours * 3600 + minutes * 60 + seconds;
+}
+
+/**
+ * Parses "1:20-2:05", "1:20-" (to the end) or "-2:05" (from the start).
+ * Returns undefined for anything that isn't shaped like a range and throws
+ * ClipRangeError for a range that is but can't be cut, e.g. "2:05-1:20".
+ */
+export function parseClipRange(value: string): Partial<ClipRange> | undefined {
+  const parts = value.split(RANGE_SEPARATOR);
+  if (parts.length !== 2 || (!parts[0] && !parts[1])) {
+    return undefined;
+  }
+
+  const start = parts[0] ? parseTimestamp(parts[0]) : undefined;
+  const end = parts[1] ? parseTimestamp(parts[1]) : undefined;
+  if ((parts[0] && start === undefined) || (parts[1] && end === undefined)) {
+    return undefined;
+  }
+  if (start !== undefined && end !== undefined && end <= start) {
+    throw new ClipRangeError(value);
+  }
+  return { start, end };
+}
+
+/** The start point of a YouTube ?t= or #t= link, in seconds. */
+export function getStartParameter(url: string): number | undefined {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return undefined;
+  }
+  if (!START_PARAMETER_HOSTS.test(parsed.hostname.toLowerCase())) {
+    return undefined;
+  }
+
+  const value = parsed.searchParams.get('t') ?? new URLSearchParams(parsed.hash.slice(1)).get('t');
+  const match = value?.match(YOUTUBE_TIME_PATTERN);
+  if (!value || !match) {
+    return undefined;
+  }
+
+  const [, hours, minutes, seconds] = match;
+  const start = Number(hours ?? 0) * 3600 + Number(minutes ?? 0) * 60 + Number(seconds ?? 0);
+  return start > 0 ? start : undefined;
+}
+
+/**
+ * The clips written in the tokens following a link. Plain numbers like
+ * "10-5" may just as well be a score or a date: they only count as a range
+ * when they are the only token after the link, and leave the link whole
+ * when they can't be cut. Throws ClipRangeError for a "1:20-2:05" style
+ * range that can't be cut.
+ */
+function clipsAfterLink(tokens: string[], startPoint: number | undefined): ClipRange[] {
+  const clips: ClipRange[] = [];
+  for (const token of tokens) {
+    const timestamped = token.includes(':');
+    if (!timestamped && tokens.length > 1) {
+      break;
+    }
+
+    let range: Partial<ClipRange> | undefined;
+    try {
+      range = parseClipRange(token);
+    } catch (error) {
+      if (timestamped) {
+        throw error;
+      }
+    }
+    if (!range) {
+      break;
+    }
+
+    // "-2:05" on a ?t= link runs from the start point
+    const start = range.start ?? startPoint ?? 0;
+    if (range.end !== undefined && range.end <= start) {
+      if (!timestamped) {
+        break;
+      }
+      throw new ClipRangeError(`${formatDuration(start)}-${formatDuration(range.end)}`);
+    }
+    clips.push({ start, end: range.end });
+  }
+  return clips;
+}
+
+/**
+ * Links in a message, each with the ranges written right after it:
+ * "https://youtu.be/x 1:20-2:05 3:00-3:30" gives two clips of the same
+ * video. Without a range, a ?t= start point clips from there to the end.
+ * Throws ClipRangeError for a range that can't be cut.
+ */
+export function extractLinks(text: string): LinkRequest[] {
+  const tokens = text.split(/[\s,]+/).filter(Boolean);
+  const links: LinkRequest[] = [];
+  const seen = new Set<string>();
+
+  const add = (link: LinkRequest) => {
+    const key = `${link.url} ${link.clip?.start}-${link.clip?.end}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      links.push(link);
+    }
+  };
+
+  for (const [index, token] of tokens.entries()) {
+    for (const url of extractUrls(token)) {
+      const startPoint = getStartParameter(url);
+      const clips = clipsAfterLink(tokens.slice(index + 1), startPoint);
+      if (clips.length === 0) {
+        add({ url, clip: startPoint !== undefined ? { start: startPoint } : undefined });
+        continue;
+      }
+
+      for (const clip of clips) {
+        add({ url, clip });
+      }
+    }
+  }
+
+  return links;
+}
+
+/** "1:20–2:05", or "1:20–" for a clip that runs to the end. */
+export function formatClipRange(clip: ClipRange): string {
+  return `${formatDuration(clip.start)}–${clip.end !== undefined ? formatDuration(clip.end) : ''}`;
+}
+
+/** The --download-sections value for a clip, in seconds. */
+export function toDownloadSection(clip: ClipRange): string {
+  return `*${clip.start}-${clip.end ?? 'inf'}`;
+}
@@ -0,0 +1,111 @@
+import * as fs from 'fs-extra';
+import { logger } from './logger';
+import { runCommand } from './process';
+
+export interface VideoInfo {
+  // As displayed, i.e. with rotation metadata applied
+  width?: number;
+  height?: number;
+  // Seconds
+  duration?: number;
+}
+
+// Telegram ignores thumbnails larger than 320 px on a side or 200 KB
+const THUMBNAIL_MAX_SIDE = 320;
+const THUMBNAIL_MAX_BYTES = 200 * 1024;
+const PROBE_TIMEOUT_MS = 30 * 1000;
+
+function positiveNumber(value: unknown): number | undefined {
+  const number = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) && number > 0 ? number : undefined;
+}
+
+/** Dimensions and duration of a video file from ffprobe; undefined when it can't be read. */
+export async function probeVideo(filePath: string, signal?: AbortSignal): Promise<VideoInfo | undefined> {
+  try {
+    const result = await runCommand(
+      'ffprobe',
+      [
+        '-v',
+        'error',
+        '-select_streams',
+        'v:0',
+        '-show_entries',
+        'stream=width,height:stream_tags=rotate:stream_side_data=rotation:format=duration',
+        '-of',
+        'json',
+        filePath,
+      ],
+      { timeoutMs: PROBE_TIMEOUT_MS, signal }
+    );
+    if (result.code !== 0) {
+      logger.warn({ filePath, stderr: result.stderr.slice(-500) }, 'ffprobe failed');
+      return undefined;
+    }
+
+    const output = JSON.parse(result.stdout);
+    const stream = output.streams?.[0] ?? {};
+    const rotation = Number(
+      stream.side_data_list?.find((data: { rotation?: number }) => data.rotation !== undefined)?.rotation ??
+        stream.tags?.rotate ??
+        0
+    );
+    // Phones record portrait video as landscape frames with a 90° rotation flag
+    const swap = Math.abs(rotation) % 180 === 90;
+    const width = positiveNumber(stream.width);
+    const height = positiveNumber(stream.height);
+
+    return {
+      width: swap ? height : width,
+      height: swap ? width : height,
+      duration: positiveNumber(output.format?.duration),
+    };
+  } catch (error) {
+    logger.warn({ filePath, error }, 'Failed to probe video');
+    return undefined;
+  }
+}
+
+/**
+ * Writes a JPEG thumbnail Telegram accepts, from an image or, when
+ * `seekSeconds` is given, from a frame of a video. Returns false when it
+ * couldn't be made.
+ */
+export async function makeThumbnail(
+  inputPath: string,
+  outputPath: string,
+  seekSeconds?: number,
+  signal?: AbortSignal
+): Promise<boolean> {
+  const scale = `scale='min(${THUMBNAIL_MAX_SIDE},iw)':'min(${THUMBNAIL_MAX_SIDE},ih)':force_original_aspect_ratio=decrease`;
+
+  try {
+    const result = await runCommand(
+      'ffmpeg',
+      [
+        '-y',
+        '-v',
+        'error',
+        ...(seekSeconds !== undefined ? ['-ss', String(seekSeconds)] : []),
+        '-i',
+        inputPath,
+        '-frames:v',
+        '1',
+        '-vf',
+        scale,
+        '-q:v',
+        '4',
+        outputPath,
+      ],
+      { timeoutMs: PROBE_TIMEOUT_MS, signal }
+    );
+    if (result.code !== 0 || !(await fs.pathExists(outputPath))) {
+      logger.warn({ inputPath, stderr: result.stderr.slice(-500) }, 'Failed to make thumbnail');
+      return false;
+    }
+    return (await fs.stat(outputPath)).size <= THUMBNAIL_MAX_BYTES;
+  } catch (error) {
+    logger.warn({ inputPath, error }, 'Failed to make thumbnail');
+    return false;
+  }
+}
@@ -0,0 +1,150 @@
+type Labels = Record<string, string>;
+
+interface Metric {
+  render(): string[];
+}
+
+function labelKey(labels: Labels): string {
+  return Object.keys(labels)
+    .sort()
+    .map((name) => `${name}="${labels[name].replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')}"`)
+    .join(',');
+}
+
+function sample(name: string, key: string, value: number): string {
+  return key ? `${name}{${key}} ${value}` : `${name} ${value}`;
+}
+
+function header(name: string, help: string, type: string): string[] {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+}
+
+export class Counter implements Metric {
+  private readonly name: string;
+  private readonly help: string;
+  private values: Map<string, number> = new Map();
+
+  constructor(name: string, help: string) {
+    this.name = name;
+    this.help = help;
+  }
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = labelKey(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + value);
+  }
+
+  render(): string[] {
+    const lines = header(this.name, this.help, 'counter');
+    for (const [key, value] of this.values) {
+      lines.push(sample(this.name, key, value));
+    }
+    return lines;
+  }
+}
+
+/** A gauge is either set directly or read from a callback at scrape time. */
+export class Gauge implements Metric {
+  private readonly name: string;
+  private readonly help: string;
+  private value = 0;
+  private collector?: () => number;
+
+  constructor(name: string, help: string) {
+    this.name = name;
+    this.help = help;
+  }
+
+  inc(): void {
+    this.value++;
+  }
+
+  dec(): void {
+    this.value--;
+  }
+
+  collect(collector: () => number): void {
+    this.collector = collector;
+  }
+
+  render(): string[] {
+    return [...header(this.name, this.help, 'gauge'), sample(this.name, '', this.collector?.() ?? this.value)];
+  }
+}
+
+export class Histogram implements Metric {
+  private readonly name: string;
+  private readonly help: string;
+  private readonly bounds: number[];
+  private series: Map<string, { labels: Labels; buckets: number[]; sum: number; count: number }> = new Map();
+
+  constructor(name: string, help: string, bounds: number[]) {
+    this.name = name;
+    this.help = help;
+    this.bounds = bounds;
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    const series = this.series.get(key) || { labels, buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+
+    this.bounds.forEach((bound, index) => {
+      if (value <= bound) {
+        series.buckets[index]++;
+      }
+    });
+    series.sum += value;
+    series.count++;
+    this.series.set(key, series);
+  }
+
+  render(): string[] {
+    const lines = header(this.name, this.help, 'histogram');
+    for (const [key, series] of this.series) {
+      this.bounds.forEach((bound, index) => {
+        lines.push(sample(`${this.name}_bucket`, labelKey({ ...series.labels, le: String(bound) }), series.buckets[index]));
+      });
+      lines.push(sample(`${this.name}_bucket`, labelKey({ ...series.labels, le: '+Inf' }), series.count));
+      lines.push(sample(`${this.name}_sum`, key, series.sum));
+      lines.push(sample(`${this.name}_count`, key, series.count));
+    }
+    return lines;
+  }
+}
+
+// Downloads and uploads range from a second for a photo to minutes for a long video
+const LATENCY_BUCKETS = [1, 2.5, 5, 10, 20, 30, 60, 120, 300, 600];
+
+/** Process-wide metrics, rendered in the Prometheus text format by the HTTP server. */
+class Metrics {
+  readonly downloads = new Counter('savebot_downloads_total', 'Finished jobs by outcome and domain');
+  readonly downloadDuration = new Histogram(
+    'savebot_download_duration_seconds',
+    'Time spent downloading with yt-dlp',
+    LATENCY_BUCKETS
+  );
+  readonly uploadDuration = new Histogram(
+    'savebot_upload_duration_seconds',
+    'Time spent sending media to Telegram',
+    LATENCY_BUCKETS
+  );
+  readonly bytesSent = new Counter('savebot_bytes_sent_total', 'Bytes of media sent to Telegram');
+  readonly queuePending = new Gauge('savebot_queue_pending', 'Jobs waiting in the download queue');
+  readonly queueActive = new Gauge('savebot_queue_active', 'Jobs and probes currently running');
+  readonly ytDlpProcesses = new Gauge('savebot_ytdlp_processes', 'Running yt-dlp processes');
+
+  render(): string {
+    const metrics: Metric[] = [
+      this.downloads,
+      this.downloadDuration,
+      this.uploadDuration,
+      this.bytesSent,
+      this.queuePending,
+      this.queueActive,
+      this.ytDlpProcesses,
+    ];
+    return metrics.flatMap((metric) => metric.render()).join('\n') + '\n';
+  }
+}
+
+export const metrics = new Metrics();
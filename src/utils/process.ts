@@ -0,0 +1,80 @@
+import { ChildProcess, spawn } from 'child_process';
+
+export interface CommandResult {
+  code: number | null;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+  cancelled: boolean;
+}
+
+export interface CommandOptions {
+  timeoutMs: number;
+  signal?: AbortSignal;
+}
+
+export function killProcessTree(child: ChildProcess): void {
+  if (child.pid === undefined || child.exitCode !== null) {
+    return;
+  }
+
+  try {
+    // Negative pid signals the whole process group
+    process.kill(-child.pid, 'SIGTERM');
+  } catch {
+    child.kill('SIGTERM');
+  }
+}
+
+/**
+ * Runs a command to completion, collecting its output. Never rejects for a
+ * non-zero exit; rejects only when the binary can't be started.
+ */
+export function runCommand(command: string, args: string[], options: CommandOptions): Promise<CommandResult> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, {
+      stdio: ['ignore', 'pipe', 'pipe'],
+      // Own process group, so children of the command are killed with it
+      detached: true,
+    });
+
+    let stdout = '';
+    let stderr = '';
+    let timedOut = false;
+    let cancelled = false;
+
+    const onAbort = () => {
+      cancelled = true;
+      killProcessTree(child);
+    };
+    if (options.signal?.aborted) {
+      onAbort();
+    }
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    const timeout = setTimeout(() => {
+      timedOut = true;
+      killProcessTree(child);
+    }, options.timeoutMs);
+
+    child.stdout?.on('data', (data: Buffer) => {
+      stdout += data.toString();
+    });
+
+    child.stderr?.on('data', (data: Buffer) => {
+      stderr += data.toString();
+    });
+
+    child.on('close', (code) => {
+      clearTimeout(timeout);
+      options.signal?.removeEventListener('abort', onAbort);
+      resolve({ code, stdout, stderr, timedOut, cancelled });
+    });
+
+    child.on('error', (err) => {
+      clearTimeout(timeout);
+      options.signal?.removeEventListener('abort', onAbort);
+      reject(new Error(`${command} failed to start: ${err.message}`));
+    });
+  });
+}
@@ -0,0 +1,108 @@
+export type DownloadPhase = 'downloading' | 'processing';
+
+export interface DownloadProgress {
+  phase: DownloadPhase;
+  percent?: number;
+  downloadedBytes?: number;
+  totalBytes?: number;
+  // Bytes per second
+  speed?: number;
+  // Seconds
+  eta?: number;
+  // 1-based item of a multi-item post
+  itemIndex?: number;
+  itemCount?: number;
+}
+
+const PROGRESS_PREFIX = '[progress]';
+
+// Machine-readable progress line; missing values are printed as "NA"
+export const PROGRESS_TEMPLATE =
+  `download:${PROGRESS_PREFIX} %(progress.downloaded_bytes)s %(progress.total_bytes)s ` +
+  '%(progress.total_bytes_estimate)s %(progress.speed)s %(progress.eta)s';
+
+const PROCESSING_REGEX = /^\[(Merger|VideoRemuxer|VideoConvertor|ExtractAudio|Fixup\w*|ffmpeg)\]/;
+const ITEM_REGEX = /^\[download\] Downloading item (\d+) of (\d+)/;
+
+function toNumber(value: string | undefined): number | undefined {
+  const parsed = value === undefined ? NaN : parseFloat(value);
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Turns yt-dlp stdout into progress events. Feed it raw chunks; it keeps the
+ * current item counter between lines.
+ */
+export function createProgressParser(onProgress: (progress: DownloadProgress) => void): (chunk: string) => void {
+  let buffer = '';
+  let itemIndex: number | undefined;
+  let itemCount: number | undefined;
+
+  const parseLine = (line: string): void => {
+    const itemMatch = line.match(ITEM_REGEX);
+    if (itemMatch) {
+      itemIndex = parseInt(itemMatch[1], 10);
+      itemCount = parseInt(itemMatch[2], 10);
+      return;
+    }
+
+    if (PROCESSING_REGEX.test(line)) {
+      onProgress({ phase: 'processing', itemIndex, itemCount });
+      return;
+    }
+
+    if (!line.startsWith(PROGRESS_PREFIX)) {
+      return;
+    }
+
+    const [downloaded, total, estimate, speed, eta] = line.slice(PROGRESS_PREFIX.length).trim().split(/\s+/);
+    const downloadedBytes = toNumber(downloaded);
+    const totalBytes = toNumber(total) ?? toNumber(estimate);
+
+    onProgress({
+      phase: 'downloading',
+      downloadedBytes,
+      totalBytes,
+      percent:
+        downloadedBytes !== undefined && totalBytes ? Math.min(100, (downloadedBytes / totalBytes) * 100) : undefined,
+      speed: toNumber(speed),
+      eta: toNumber(eta),
+      itemIndex,
+      itemCount,
+    });
+  };
+
+  return (chunk: string) => {
+    buffer += chunk;
+    const lines = buffer.split(/\r?\n|\r/);
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      parseLine(line.trim());
+    }
+  };
+}
+
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+}
+
+export function formatDuration(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const mmss = `${h > 0 ? String(m).padStart(2, '0') : m}:${String(s).padStart(2, '0')}`;
+  return h > 0 ? `${h}:${mmss}` : mmss;
+}
+
+export function renderProgressBar(percent: number, width = 10): string {
+  const filled = Math.round((Math.max(0, Math.min(100, percent)) / 100) * width);
+  return '▓'.repeat(filled) + '░'.repeat(width - filled);
+}
@@ -0,0 +1,49 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { logger } from './logger';
+
+export const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), 'data');
+
+/**
+ * Small JSON file store for state that must survive restarts.
+ * Writes are serialized and atomic (written to a temp file, then renamed).
+ */
+export class JsonStore<T> {
+  private readonly filePath: string;
+  private readonly defaults: () => T;
+  private writeChain: Promise<void> = Promise.resolve();
+  data: T;
+
+  constructor(fileName: string, defaults: () => T) {
+    this.filePath = path.isAbsolute(fileName) ? fileName : path.join(DATA_DIR, fileName);
+    this.defaults = defaults;
+    this.data = defaults();
+  }
+
+  async load(): Promise<T> {
+    try {
+      if (await fs.pathExists(this.filePath)) {
+        this.data = { ...this.defaults(), ...(await fs.readJson(this.filePath)) };
+      }
+      logger.debug({ filePath: this.filePath }, 'Store loaded');
+    } catch (error) {
+      logger.warn({ filePath: this.filePath, error }, 'Failed to load store, starting empty');
+      this.data = this.defaults();
+    }
+    return this.data;
+  }
+
+  save(): Promise<void> {
+    this.writeChain = this.writeChain
+      .then(async () => {
+        const tmpPath = `${this.filePath}.tmp`;
+        await fs.ensureDir(path.dirname(this.filePath));
+        await fs.writeJson(tmpPath, this.data, { spaces: 2 });
+        await fs.move(tmpPath, this.filePath, { overwrite: true });
+      })
+      .catch((error) => {
+        logger.error({ filePath: this.filePath, error }, 'Failed to save store');
+      });
+    return this.writeChain;
+  }
+}
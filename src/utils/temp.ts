@@ -2,7 +2,7 @@ import * as fs from 'fs-extra';
 import * as path from 'path';
 import { logger } from './logger';
 
-const TEMP_BASE_DIR = path.join(process.cwd(), 'temp');
+export const TEMP_BASE_DIR = path.join(process.cwd(), 'temp');
 
 export async function createTempDir(requestId: string): Promise<string> {
   const tempDir = path.join(TEMP_BASE_DIR, requestId);
@@ -1,3 +1,5 @@
+import { MessageEntity } from 'telegraf/types';
+
 const URL_REGEX = /(https?:\/\/(?:www\.)?[-a-zA-Z0-9@:%._+~#=]{1,256}\.[a-zA-Z0-9()]{1,6}\b(?:[-a-zA-Z0-9()@:%_+.~#?&/=]*))/gi;
 
 export function extractUrls(text: string): string[] {
@@ -16,3 +18,160 @@ export function isValidUrl(url: string): boolean {
     return false;
   }
 }
+
+// Query parameters that only track the share and never change the media
+const TRACKING_PARAMS = [/^utm_/, /^si$/, /^igshid$/, /^igsh$/, /^fbclid$/, /^feature$/, /^is_from_webapp$/, /^sender_device$/];
+
+function stripTrackingParams(parsed: URL): void {
+  for (const key of [...parsed.searchParams.keys()]) {
+    if (TRACKING_PARAMS.some((pattern) => pattern.test(key))) {
+      parsed.searchParams.delete(key);
+    }
+  }
+}
+
+export function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hostname = parsed.hostname.toLowerCase().replace(/^(www|m)\./, '');
+    parsed.hash = '';
+    stripTrackingParams(parsed);
+    parsed.searchParams.sort();
+
+    return parsed.toString().replace(/\/+(\?|$)/, '$1');
+  } catch {
+    return url;
+  }
+}
+
+/** Host name without www./m. prefixes, used to group usage by site. */
+export function getDomain(url: string): string {
+  try {
+    return new URL(normalizeUrl(url)).hostname;
+  } catch {
+    return 'unknown';
+  }
+}
+
+// A link with its media id, for sites whose links come in many shapes
+export interface CanonicalLink {
+  url: string;
+  // "youtube:dQw4w9WgXcQ"; unset for other sites and for links that aren't to one post
+  mediaId?: string;
+}
+
+interface SiteRule {
+  site: string;
+  // Matched against the host name without www./m.
+  hosts: RegExp;
+  // The media id in a link, when the link points at a single post
+  findId: (url: URL) => string | undefined;
+  canonical: (id: string, url: URL) => string;
+}
+
+const YOUTUBE_ID = /^[\w-]{11}$/;
+
+const SITE_RULES: SiteRule[] = [
+  {
+    site: 'youtube',
+    hosts: /^(youtube\.com|music\.youtube\.com|youtu\.be|youtube-nocookie\.com)$/,
+    findId: (url) => {
+      const id =
+        url.hostname.endsWith('youtu.be')
+          ? url.pathname.split('/')[1]
+          : url.pathname === '/watch'
+            ? url.searchParams.get('v')
+            : url.pathname.match(/^\/(?:shorts|live|embed|v)\/([^/]+)/)?.[1];
+      return id && YOUTUBE_ID.test(id) ? id : undefined;
+    },
+    canonical: (id) => `https://www.youtube.com/watch?v=${id}`,
+  },
+  {
+    site: 'tiktok',
+    hosts: /^tiktok\.com$/,
+    findId: (url) => url.pathname.match(/^\/(?:@[^/]*\/(?:video|photo)|v|embed(?:\/v2)?)\/(\d+)/)?.[1],
+    // Photo posts and videos have different paths; keep it, drop the share parameters
+    canonical: (_id, url) => `https://www.tiktok.com${url.pathname.replace(/\/+$/, '')}`,
+  },
+  {
+    site: 'instagram',
+    hosts: /^instagram\.com$/,
+    findId: (url) => url.pathname.match(/^\/(?:[\w.]+\/)?(?:p|reels?|tv)\/([\w-]+)/)?.[1],
+    canonical: (id) => `https://www.instagram.com/p/${id}/`,
+  },
+  {
+    site: 'twitter',
+    hosts: /^(twitter\.com|mobile\.twitter\.com|x\.com|fxtwitter\.com|vxtwitter\.com|fixupx\.com)$/,
+    findId: (url) => url.pathname.match(/\/status(?:es)?\/(\d+)/)?.[1],
+    canonical: (id) => `https://x.com/i/status/${id}`,
+  },
+];
+
+/**
+ * One form per post for the sites in SITE_RULES, so "youtu.be/x?si=..." and
+ * "youtube.com/watch?v=x" are the same link. Links to other sites only lose
+ * their tracking parameters.
+ */
+export function canonicalizeUrl(url: string): CanonicalLink {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return { url };
+  }
+
+  const host = parsed.hostname.toLowerCase().replace(/^(www|m)\./, '');
+  const rule = SITE_RULES.find((candidate) => candidate.hosts.test(host));
+  const id = rule?.findId(parsed);
+  if (rule && id) {
+    return { url: rule.canonical(id, parsed), mediaId: `${rule.site}:${id}` };
+  }
+
+  stripTrackingParams(parsed);
+  return { url: parsed.toString() };
+}
+
+/** What identifies the media behind a link: its media id where known, else the normalized link. */
+export function mediaKey(url: string): string {
+  return canonicalizeUrl(url).mediaId ?? normalizeUrl(url);
+}
+
+// Redirect services whose links say nothing about the media until followed
+const SHORT_LINK_HOSTS = ['vm.tiktok.com', 'vt.tiktok.com', 't.co', 'bit.ly', 'tinyurl.com', 'pin.it', 'redd.it'];
+
+export function isShortLink(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    const host = parsed.hostname.toLowerCase();
+    // tiktok.com/t/ZT... links are short links on the main domain
+    return (
+      SHORT_LINK_HOSTS.includes(host) ||
+      (/^(www\.)?tiktok\.com$/.test(host) && parsed.pathname.startsWith('/t/'))
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The text of a message with the links Telegram keeps in entities written
+ * out: a text_link hides its URL behind other words, and a url entity may
+ * come without a scheme ("youtu.be/x").
+ */
+export function expandEntityLinks(text: string, entities: MessageEntity[] = []): string {
+  let expanded = text;
+  // From the end, so the offsets of the entities before stay valid
+  const sorted = [...entities].sort((a, b) => b.offset - a.offset);
+  for (const entity of sorted) {
+    const end = entity.offset + entity.length;
+    if (entity.type === 'text_link') {
+      expanded = `${expanded.slice(0, end)} ${entity.url} ${expanded.slice(end)}`;
+    } else if (entity.type === 'url') {
+      const value = expanded.slice(entity.offset, end);
+      if (!/^https?:\/\//i.test(value)) {
+        expanded = `${expanded.slice(0, entity.offset)}https://${value}${expanded.slice(end)}`;
+      }
+    }
+  }
+  return expanded;
+}